@@ -45,6 +45,9 @@ test.describe('Core Requirements', () => {
 		const nameField = page.getByLabel(/name/i);
 		await nameField.fill('E2E Test Key');
 
+		// Grant read access to every resource
+		await page.getByRole('button', { name: /read all/i }).click();
+
 		// Click create button in modal (wait for it to be enabled)
 		const createButton = page.getByRole('button', { name: /create key/i });
 		await expect(createButton).toBeEnabled();
@@ -20,7 +20,12 @@
 
 import { mkdirSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
-import { generateApiKey } from '../src/lib/apiKeys.js';
+import { generateApiKey, toStoredSecret } from '../src/lib/apiKeys.js';
+import {
+	API_RESOURCES,
+	type ApiKeyScope,
+	getFullAccessScopes
+} from '../src/lib/scopes.js';
 import type {
 	ApiEndpoint,
 	ApiKey,
@@ -32,14 +37,12 @@ import type {
 	UsageStats
 } from '../src/types/mock-data.js';
 
-const ENDPOINTS: ApiEndpoint[] = [
-	'/api/users',
-	'/api/payments',
-	'/api/reports',
-	'/api/analytics',
-	'/api/auth',
-	'/api/webhooks'
-];
+const ENDPOINTS: ApiEndpoint[] = [...API_RESOURCES];
+
+const READ_ONLY_SCOPES: ApiKeyScope[] = API_RESOURCES.map((resource) => ({
+	resource,
+	access: 'read'
+}));
 
 const METHODS: Array<'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH'> = [
 	'GET',
@@ -111,7 +114,11 @@ function generateResponseTime(): number {
 // API Key Generation
 // ============================================================================
 
-function generateApiKeys(): ApiKey[] {
+/**
+ * Seed keys are stored hashed, like keys created in the app,
+ * so their secrets are never written to disk.
+ */
+async function generateApiKeys(): Promise<ApiKey[]> {
 	const now = new Date();
 	const twoWeeksAgo = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
 	const oneMonthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
@@ -122,50 +129,89 @@ function generateApiKeys(): ApiKey[] {
 		{
 			id: crypto.randomUUID(),
 			name: 'Production Server Key',
-			key: generateApiKey('test'),
+			rateLimitPerMinute: 60,
+			monthlyQuota: 3500,
+			description: 'Main API server for the web app',
+			owner: 'platform-team',
+			tags: ['service:api', 'team:platform'],
+			...(await toStoredSecret(generateApiKey('test'))),
 			environment: 'test',
 			createdAt: twoWeeksAgo.toISOString(),
-			revoked: false
+			revoked: false,
+			scopes: getFullAccessScopes()
 		},
 		{
 			id: crypto.randomUUID(),
 			name: 'Staging Environment',
-			key: generateApiKey('test'),
+			rateLimitPerMinute: 60,
+			monthlyQuota: 10000,
+			description: 'Shared key for the staging deployment',
+			owner: 'platform-team',
+			tags: ['env:staging', 'team:platform'],
+			...(await toStoredSecret(generateApiKey('test'))),
 			environment: 'test',
 			createdAt: oneMonthAgo.toISOString(),
-			revoked: false
+			revoked: false,
+			scopes: getFullAccessScopes()
 		},
 		{
 			id: crypto.randomUUID(),
 			name: 'Legacy Mobile App',
-			key: generateApiKey('test'),
+			rateLimitPerMinute: null,
+			monthlyQuota: null,
+			description: 'Old mobile client, replaced by v2',
+			owner: 'mobile-team',
+			tags: ['service:mobile', 'team:mobile'],
+			...(await toStoredSecret(generateApiKey('test'))),
 			environment: 'test',
 			createdAt: sixMonthsAgo.toISOString(),
-			revoked: true
+			revoked: true,
+			scopes: [
+				{ resource: '/api/users', access: 'read' },
+				{ resource: '/api/auth', access: 'write' }
+			]
 		},
 		{
 			id: crypto.randomUUID(),
 			name: 'Local Dev Key',
-			key: generateApiKey('test'),
+			rateLimitPerMinute: 5,
+			monthlyQuota: null,
+			description: 'Local development and debugging',
+			owner: '',
+			tags: [],
+			...(await toStoredSecret(generateApiKey('test'))),
 			environment: 'test',
 			createdAt: oneDayAgo.toISOString(),
-			revoked: false
+			revoked: false,
+			scopes: getFullAccessScopes()
 		},
 		{
 			id: crypto.randomUUID(),
 			name: 'Production API Key',
-			key: generateApiKey('production'),
+			rateLimitPerMinute: 120,
+			monthlyQuota: 50000,
+			description: 'Primary production integration',
+			owner: 'platform-team',
+			tags: ['service:api', 'team:platform'],
+			...(await toStoredSecret(generateApiKey('production'))),
 			environment: 'production',
 			createdAt: twoWeeksAgo.toISOString(),
-			revoked: false
+			revoked: false,
+			scopes: getFullAccessScopes()
 		},
 		{
 			id: crypto.randomUUID(),
 			name: 'Production Backup',
-			key: generateApiKey('production'),
+			rateLimitPerMinute: 30,
+			monthlyQuota: 2000,
+			description: 'Read-only reporting and backups',
+			owner: 'data-team',
+			tags: ['service:reporting', 'team:data'],
+			...(await toStoredSecret(generateApiKey('production'))),
 			environment: 'production',
 			createdAt: oneMonthAgo.toISOString(),
-			revoked: false
+			revoked: false,
+			scopes: READ_ONLY_SCOPES
 		}
 	];
 }
@@ -360,12 +406,12 @@ function generateUsageDataset(
 // Main
 // ============================================================================
 
-function main() {
+async function main() {
 	console.log('🔄 Generating all mock data...\n');
 
 	// Step 1: Generate API keys
 	console.log('🔑 Generating API keys...');
-	const apiKeys = generateApiKeys();
+	const apiKeys = await generateApiKeys();
 	console.log(`   Generated ${apiKeys.length} keys`);
 	console.log(
 		`   - Test: ${apiKeys.filter((k) => k.environment === 'test').length}`
@@ -0,0 +1,565 @@
+/**
+ * Local Mock Management API
+ *
+ * A stand-in for the real backend in local development and tests. Serves the
+ * REST API used by the app's client (src/lib/managementApi.ts), backed by the
+ * app's own key logic so validation, revisions and the trash behave exactly
+ * as they do in the browser.
+ *
+ * Usage:
+ * ```bash
+ * yarn mock-server
+ * VITE_API_URL=http://localhost:4010 yarn dev
+ * ```
+ *
+ * Endpoints:
+ * - GET    /v1/keys[?environment=test|production]
+ * - POST   /v1/keys
+ * - GET    /v1/keys/:id
+ * - PATCH  /v1/keys/:id
+ * - DELETE /v1/keys/:id                (moves the key to the trash)
+ * - POST   /v1/keys/:id/revoke
+ * - POST   /v1/keys/:id/regenerate
+ * - GET    /v1/usage?environment=test|production
+ * - GET, PUT, DELETE /v1/storage/:key  (storage API for the dashboard's http backend;
+ *                                      stale key list writes get 409)
+ *
+ * State is kept in public/data/mock-server/, one JSON file per storage entry.
+ * Keys are seeded from public/data/api-keys.json on first start.
+ */
+
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync
+} from 'node:fs';
+import {
+	createServer,
+	type IncomingMessage,
+	type ServerResponse
+} from 'node:http';
+import { join } from 'node:path';
+import {
+	type ApiKey,
+	type ApiKeyChanges,
+	ApiKeyConflictError,
+	ApiKeyValidationError,
+	createApiKey,
+	deleteApiKey,
+	getApiKeys,
+	type KeyLimits,
+	type KeyRestrictions,
+	regenerateApiKey,
+	revokeApiKey,
+	updateApiKey
+} from '../src/lib/apiKeys.js';
+import type { ManagementApiErrorBody } from '../src/lib/managementApi.js';
+import type { ApiKeyScope } from '../src/lib/scopes.js';
+import {
+	migrateStorage,
+	type StorageBackend,
+	setStorageBackend
+} from '../src/lib/storage.js';
+
+const PORT = Number(process.env.MOCK_API_PORT ?? 4010);
+const DATA_DIR = join(process.cwd(), 'public', 'data');
+const STATE_DIR = join(DATA_DIR, 'mock-server');
+const MAX_BODY_BYTES = 1024 * 1024;
+/** Recorded as the actor in key version history */
+const ACTOR = 'mock-server';
+
+const ENVIRONMENTS = ['test', 'production'] as const;
+type Environment = (typeof ENVIRONMENTS)[number];
+
+class HttpError extends Error {
+	readonly status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.status = status;
+	}
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Storage backend over one file per entry, so the state survives restarts
+ * and can be inspected or edited by hand.
+ */
+function createFileBackend(directory: string): StorageBackend {
+	mkdirSync(directory, { recursive: true });
+	const getPath = (key: string) => join(directory, `${key}.json`);
+
+	return {
+		// Node-only backend, not one the dashboard can be configured with
+		kind: 'file',
+		getItem: (key) =>
+			existsSync(getPath(key)) ? readFileSync(getPath(key), 'utf-8') : null,
+		setItem: (key, value) => writeFileSync(getPath(key), value),
+		removeItem: (key) => rmSync(getPath(key), { force: true })
+	};
+}
+
+function isValidStorageKey(key: string): boolean {
+	return /^[\w-]+$/.test(key);
+}
+
+/**
+ * Seed the demo keys when the server starts with no state, then upgrade
+ * stored data like the app does at startup.
+ */
+function initializeState(backend: StorageBackend): void {
+	if (backend.getItem('api_keys') === null) {
+		const seed = JSON.parse(
+			readFileSync(join(DATA_DIR, 'api-keys.json'), 'utf-8')
+		) as { keys: ApiKey[] };
+		// Stored unversioned, as older app versions did; migrateStorage upgrades it
+		backend.setItem('api_keys', JSON.stringify(seed.keys));
+		console.log(`🌱 Seeded ${seed.keys.length} keys from api-keys.json`);
+	}
+
+	const report = migrateStorage();
+	for (const key of report.quarantined) {
+		console.warn(`⚠️  Quarantined unreadable "${key}"`);
+	}
+}
+
+// ============================================================================
+// HTTP helpers
+// ============================================================================
+
+const jsonHeaders = { 'Content-Type': 'application/json; charset=utf-8' };
+
+function send(response: ServerResponse, status: number, body?: unknown): void {
+	response.writeHead(status, body === undefined ? {} : jsonHeaders);
+	response.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+	let size = 0;
+	const chunks: Buffer[] = [];
+	for await (const chunk of request) {
+		size += chunk.length;
+		if (size > MAX_BODY_BYTES) {
+			throw new HttpError(413, 'Request body is too large');
+		}
+		chunks.push(chunk);
+	}
+	return Buffer.concat(chunks).toString('utf-8');
+}
+
+async function readJson(
+	request: IncomingMessage
+): Promise<Record<string, unknown>> {
+	const text = await readBody(request);
+	if (!text) return {};
+	try {
+		const body = JSON.parse(text) as unknown;
+		if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+			throw new Error();
+		}
+		return body as Record<string, unknown>;
+	} catch {
+		throw new HttpError(400, 'Request body must be a JSON object');
+	}
+}
+
+function parseEnvironment(value: unknown): Environment {
+	if (!ENVIRONMENTS.includes(value as Environment)) {
+		throw new HttpError(400, 'environment must be "test" or "production"');
+	}
+	return value as Environment;
+}
+
+function findKey(id: string): ApiKey {
+	const key = getApiKeys().find((k) => k.id === id);
+	if (!key) {
+		throw new HttpError(404, `API key ${id} not found`);
+	}
+	return key;
+}
+
+// ============================================================================
+// Request validation
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return (
+		Array.isArray(value) && value.every((item) => typeof item === 'string')
+	);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+	return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * A body field, or undefined if it is absent.
+ * @throws {HttpError} 400 if it is present but fails the check
+ */
+function readField<T>(
+	body: Record<string, unknown>,
+	field: string,
+	isValid: (value: unknown) => value is T,
+	expected: string,
+	path = field
+): T | undefined {
+	const value = body[field];
+	if (value === undefined) return undefined;
+	if (!isValid(value)) {
+		throw new HttpError(400, `${path} must be ${expected}`);
+	}
+	return value;
+}
+
+function readString(body: Record<string, unknown>, field: string) {
+	return readField(
+		body,
+		field,
+		(value): value is string => typeof value === 'string',
+		'a string'
+	);
+}
+
+function readExpectedRevision(body: Record<string, unknown>) {
+	return readField(
+		body,
+		'expectedRevision',
+		isNonNegativeInteger,
+		'a non-negative integer'
+	);
+}
+
+function readScopes(body: Record<string, unknown>): ApiKeyScope[] | undefined {
+	return readField(
+		body,
+		'scopes',
+		(value): value is ApiKeyScope[] =>
+			Array.isArray(value) &&
+			value.every(
+				(scope) =>
+					isObject(scope) &&
+					typeof scope.resource === 'string' &&
+					typeof scope.access === 'string'
+			),
+		'a list of { resource, access } objects'
+	);
+}
+
+function readRestrictions(
+	body: Record<string, unknown>
+): KeyRestrictions | undefined {
+	const restrictions = readField(body, 'restrictions', isObject, 'an object');
+	if (restrictions === undefined) return undefined;
+	const list = (field: string) =>
+		readField(
+			restrictions,
+			field,
+			isStringArray,
+			'a list of strings',
+			`restrictions.${field}`
+		) ?? [];
+	return {
+		allowedIps: list('allowedIps'),
+		allowedOrigins: list('allowedOrigins')
+	};
+}
+
+function readLimits(body: Record<string, unknown>): KeyLimits | undefined {
+	const limits = readField(body, 'limits', isObject, 'an object');
+	if (limits === undefined) return undefined;
+	const limit = (field: string) =>
+		readField(
+			limits,
+			field,
+			(value): value is number | null =>
+				value === null || typeof value === 'number',
+			'a number or null',
+			`limits.${field}`
+		) ?? null;
+	return {
+		rateLimitPerMinute: limit('rateLimitPerMinute'),
+		monthlyQuota: limit('monthlyQuota')
+	};
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+async function handleCreateKey(request: IncomingMessage) {
+	const body = await readJson(request);
+	const name = readString(body, 'name');
+	const scopes = readScopes(body);
+	if (name === undefined || scopes === undefined) {
+		throw new HttpError(400, 'name and scopes are required');
+	}
+	return createApiKey(name, parseEnvironment(body.environment), {
+		scopes,
+		expiresAt: readField(
+			body,
+			'expiresAt',
+			(value): value is string | null =>
+				value === null || typeof value === 'string',
+			'an ISO date string or null'
+		),
+		restrictions: readRestrictions(body),
+		actor: ACTOR
+	});
+}
+
+/**
+ * Apply every change in one write, so a rejected change leaves the key as it
+ * was. expectedRevision is checked even if the body changes nothing.
+ */
+async function handleUpdateKey(id: string, request: IncomingMessage) {
+	const body = await readJson(request);
+	const changes: ApiKeyChanges = {
+		name: readString(body, 'name'),
+		description: readString(body, 'description'),
+		owner: readString(body, 'owner'),
+		tags: readField(body, 'tags', isStringArray, 'a list of strings'),
+		scopes: readScopes(body),
+		restrictions: readRestrictions(body),
+		limits: readLimits(body)
+	};
+	const expectedRevision = readExpectedRevision(body);
+	findKey(id);
+	const apiKey = updateApiKey(id, changes, expectedRevision);
+	if (!apiKey) throw new HttpError(404, `API key ${id} not found`);
+	return { apiKey };
+}
+
+async function handleRevokeKey(id: string, request: IncomingMessage) {
+	const body = await readJson(request);
+	const expectedRevision = readExpectedRevision(body);
+	findKey(id);
+	revokeApiKey(id, ACTOR, expectedRevision);
+	return { apiKey: findKey(id) };
+}
+
+async function handleRegenerateKey(id: string, request: IncomingMessage) {
+	const body = await readJson(request);
+	const gracePeriodMs = readField(
+		body,
+		'gracePeriodMs',
+		isNonNegativeInteger,
+		'a non-negative number of milliseconds'
+	);
+	const expectedRevision = readExpectedRevision(body);
+	findKey(id);
+	const result = await regenerateApiKey(id, {
+		gracePeriodMs,
+		expectedRevision,
+		actor: ACTOR
+	});
+	if (!result) throw new HttpError(404, `API key ${id} not found`);
+	return result;
+}
+
+function handleUsage(url: URL, response: ServerResponse): void {
+	const environment = parseEnvironment(url.searchParams.get('environment'));
+	const path = join(DATA_DIR, `usage-${environment}.json`);
+	if (!existsSync(path)) {
+		throw new HttpError(404, `No usage data for ${environment}`);
+	}
+	response.writeHead(200, jsonHeaders);
+	response.end(readFileSync(path));
+}
+
+/**
+ * Collection revision of a stored value, for entries that carry one (the key
+ * list), or null.
+ */
+function getStoredRevision(value: string | null): number | null {
+	if (value === null) return null;
+	try {
+		const revision = (JSON.parse(value) as { data?: { revision?: unknown } })
+			?.data?.revision;
+		return typeof revision === 'number' ? revision : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Reject a storage write based on a stale copy. Entries with a revision must
+ * be written at the revision after the stored one, as saveKeys does, so a
+ * dashboard cannot overwrite keys changed through /v1/keys since it loaded them.
+ */
+function assertNextRevision(
+	key: string,
+	stored: string | null,
+	incoming: string
+): void {
+	const storedRevision = getStoredRevision(stored);
+	if (storedRevision === null) return;
+	if (getStoredRevision(incoming) !== storedRevision + 1) {
+		throw new HttpError(
+			409,
+			`"${key}" was changed since this copy was loaded (now at revision ${storedRevision})`
+		);
+	}
+}
+
+async function handleStorage(
+	key: string,
+	backend: StorageBackend,
+	request: IncomingMessage,
+	response: ServerResponse
+): Promise<void> {
+	if (!isValidStorageKey(key)) {
+		throw new HttpError(400, `Invalid storage key "${key}"`);
+	}
+	switch (request.method) {
+		case 'GET': {
+			const value = backend.getItem(key);
+			if (value === null) throw new HttpError(404, `"${key}" is not set`);
+			response.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+			response.end(value);
+			return;
+		}
+		case 'PUT': {
+			const value = await readBody(request);
+			assertNextRevision(key, backend.getItem(key), value);
+			backend.setItem(key, value);
+			return send(response, 204);
+		}
+		case 'DELETE':
+			backend.removeItem(key);
+			return send(response, 204);
+		default:
+			throw new HttpError(405, `${request.method} is not allowed`);
+	}
+}
+
+async function route(
+	request: IncomingMessage,
+	response: ServerResponse,
+	backend: StorageBackend
+): Promise<void> {
+	const url = new URL(request.url ?? '/', `http://localhost:${PORT}`);
+	const method = request.method ?? 'GET';
+	const [version, resource, rawId, action, ...rest] = url.pathname
+		.split('/')
+		.filter(Boolean);
+	const id = rawId === undefined ? undefined : decodeURIComponent(rawId);
+
+	if (version !== 'v1' || rest.length > 0) {
+		throw new HttpError(404, 'Not found');
+	}
+
+	if (resource === 'storage' && id !== undefined && action === undefined) {
+		return handleStorage(id, backend, request, response);
+	}
+	if (resource === 'usage' && id === undefined && method === 'GET') {
+		return handleUsage(url, response);
+	}
+	if (resource !== 'keys') throw new HttpError(404, 'Not found');
+
+	if (id === undefined) {
+		if (method === 'GET') {
+			const environment = url.searchParams.get('environment');
+			const keys = getApiKeys();
+			return send(response, 200, {
+				keys: environment
+					? keys.filter(
+							(key) => key.environment === parseEnvironment(environment)
+						)
+					: keys
+			});
+		}
+		if (method === 'POST') {
+			return send(response, 201, await handleCreateKey(request));
+		}
+	} else if (action === undefined) {
+		if (method === 'GET') return send(response, 200, { apiKey: findKey(id) });
+		if (method === 'PATCH') {
+			return send(response, 200, await handleUpdateKey(id, request));
+		}
+		if (method === 'DELETE') {
+			findKey(id);
+			deleteApiKey(id, ACTOR);
+			return send(response, 204);
+		}
+	} else if (method === 'POST' && action === 'revoke') {
+		return send(response, 200, await handleRevokeKey(id, request));
+	} else if (method === 'POST' && action === 'regenerate') {
+		return send(response, 200, await handleRegenerateKey(id, request));
+	}
+	throw new HttpError(404, 'Not found');
+}
+
+/**
+ * Map errors to responses: conflicts are 409, validation errors from the key
+ * logic are 400 and anything else, such as a storage failure, is a logged 500.
+ */
+function sendError(response: ServerResponse, error: unknown): void {
+	let status = 500;
+	let body: ManagementApiErrorBody = {
+		error: { message: 'Internal server error' }
+	};
+	if (error instanceof HttpError) {
+		status = error.status;
+		body = { error: { message: error.message } };
+	} else if (error instanceof ApiKeyConflictError) {
+		// The key logic's message talks about tabs; describe it for API clients
+		status = 409;
+		body = {
+			error: {
+				message: error.keyId
+					? `API key ${error.keyId} has changed or been deleted since expectedRevision; fetch it again and retry`
+					: 'API keys were changed by another request; retry',
+				keyId: error.keyId
+			}
+		};
+	} else if (error instanceof ApiKeyValidationError) {
+		status = 400;
+		body = { error: { message: error.message } };
+	}
+	if (status === 500) console.error(error);
+	send(response, status, body);
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+function main() {
+	const backend = createFileBackend(STATE_DIR);
+	setStorageBackend(backend);
+	initializeState(backend);
+
+	const server = createServer((request, response) => {
+		// The dashboard runs on another origin (the Vite dev server)
+		response.setHeader('Access-Control-Allow-Origin', '*');
+		response.setHeader(
+			'Access-Control-Allow-Methods',
+			'GET, POST, PUT, PATCH, DELETE, OPTIONS'
+		);
+		response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+		if (request.method === 'OPTIONS') {
+			send(response, 204);
+			return;
+		}
+
+		route(request, response, backend).catch((error: unknown) =>
+			sendError(response, error)
+		);
+	});
+
+	server.listen(PORT, () => {
+		console.log(`🚀 Mock management API listening on http://localhost:${PORT}`);
+		console.log(`   State: ${STATE_DIR}`);
+	});
+}
+
+main();
@@ -1,14 +1,53 @@
+import { useEffect } from 'react';
 import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom';
+import { toast } from 'sonner';
+import { KeyConflictDialog } from './components/api-keys/KeyConflictDialog';
 import { ProtectedRoute } from './components/auth/ProtectedRoute';
 import { AppShell } from './components/layout/AppShell';
 import { Toaster } from './components/ui/sonner';
+import { KEY_DETAIL_PATH } from './config/routes';
+import { downloadFile } from './lib/download';
+import {
+	getQuarantinedEntries,
+	getStorageMigrationReport
+} from './lib/storage';
 import { ApiKeys } from './pages/ApiKeys';
 import { Dashboard } from './pages/Dashboard';
 import { Documentation } from './pages/Documentation';
+import { KeyDetail } from './pages/KeyDetail';
 import { Login } from './pages/Login';
+import { Sandbox } from './pages/Sandbox';
 import { Usage } from './pages/Usage';
 
+/**
+ * Tell the user when saved data could not be upgraded at startup and was
+ * reset, and offer the quarantined copy for recovery.
+ */
+function useQuarantineNotice() {
+	useEffect(() => {
+		const { quarantined } = getStorageMigrationReport();
+		if (quarantined.length === 0) return;
+
+		toast.warning('Some saved data could not be read', {
+			id: 'storage-quarantine',
+			description: `${quarantined.join(', ')} was reset. A copy was kept aside.`,
+			duration: Number.POSITIVE_INFINITY,
+			action: {
+				label: 'Download copy',
+				onClick: () =>
+					downloadFile(
+						'quarantined-data.json',
+						JSON.stringify(getQuarantinedEntries(), null, 2),
+						'application/json'
+					)
+			}
+		});
+	}, []);
+}
+
 function App() {
+	useQuarantineNotice();
+
 	return (
 		<div className="dark">
 			<BrowserRouter>
@@ -35,6 +74,16 @@ function App() {
 							</ProtectedRoute>
 						}
 					/>
+					<Route
+						path={KEY_DETAIL_PATH}
+						element={
+							<ProtectedRoute>
+								<AppShell>
+									<KeyDetail />
+								</AppShell>
+							</ProtectedRoute>
+						}
+					/>
 					<Route
 						path="/usage"
 						element={
@@ -45,6 +94,16 @@ function App() {
 							</ProtectedRoute>
 						}
 					/>
+					<Route
+						path="/sandbox"
+						element={
+							<ProtectedRoute>
+								<AppShell>
+									<Sandbox />
+								</AppShell>
+							</ProtectedRoute>
+						}
+					/>
 					<Route
 						path="/docs"
 						element={
@@ -59,6 +118,7 @@ function App() {
 					<Route path="*" element={<Navigate to="/" replace />} />
 				</Routes>
 				<Toaster />
+				<KeyConflictDialog />
 			</BrowserRouter>
 		</div>
 	);
@@ -1,23 +1,14 @@
 import {
 	Calendar,
+	CalendarClock,
 	Clock,
 	MoreVertical,
 	Shield,
-	ShieldAlert
+	ShieldAlert,
+	User
 } from 'lucide-react';
 import { useState } from 'react';
-import { toast } from 'sonner';
-import {
-	AlertDialog,
-	AlertDialogAction,
-	AlertDialogCancel,
-	AlertDialogContent,
-	AlertDialogDescription,
-	AlertDialogFooter,
-	AlertDialogHeader,
-	AlertDialogTitle
-} from '@/components/ui/alert-dialog';
-import { ApiKeyStatusBadge } from './ApiKeyStatusBadge';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import {
 	DropdownMenu,
@@ -26,18 +17,40 @@ import {
 	DropdownMenuSeparator,
 	DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu';
+import { getKeyDetailPath } from '@/config/routes';
 import {
 	type ApiKey,
-	deleteApiKey,
-	maskApiKey,
-	revokeApiKey
+	canDeleteApiKey,
+	getApiKeyStatus,
+	getMaskedKey,
+	isApiKeyActive
 } from '@/lib/apiKeys';
-import { formatRelativeTime } from '@/lib/dateUtils';
+import { formatDate, formatRelativeTime } from '@/lib/dateUtils';
+import type { KeyQuotaUsage } from '@/lib/quotas';
+import type { KeyUsageSummary } from '@/lib/usage';
+import { cn } from '@/lib/utils';
+import { ApiKeyStatusBadge } from './ApiKeyStatusBadge';
+import { DeleteKeyDialog } from './DeleteKeyDialog';
+import { KeyLastUsed } from './KeyLastUsed';
+import { KeyRestrictions } from './KeyRestrictions';
+import { KeyTags } from './KeyTags';
+import { PreviousSecrets } from './PreviousSecrets';
+import { QuotaMeter } from './QuotaMeter';
+import { RevokeKeyDialog } from './RevokeKeyDialog';
+import { ScopeChips } from './ScopeChips';
 
 interface ApiKeyCardProps {
 	apiKey: ApiKey;
-	onUpdate: () => void;
+	usage?: KeyUsageSummary;
+	quota?: KeyQuotaUsage;
 	onRegenerate: (apiKey: ApiKey) => void;
+	onEditScopes: (apiKey: ApiKey) => void;
+	onEditDetails: (apiKey: ApiKey) => void;
+	onEditRestrictions: (apiKey: ApiKey) => void;
+	onEditLimits: (apiKey: ApiKey) => void;
+	onViewHistory: (apiKey: ApiKey) => void;
+	selected: boolean;
+	onToggleSelected: (id: string) => void;
 }
 
 /**
@@ -45,54 +58,61 @@ interface ApiKeyCardProps {
  */
 export function ApiKeyCard({
 	apiKey,
-	onUpdate,
-	onRegenerate
+	usage,
+	quota,
+	onRegenerate,
+	onEditScopes,
+	onEditDetails,
+	onEditRestrictions,
+	onEditLimits,
+	onViewHistory,
+	selected,
+	onToggleSelected
 }: ApiKeyCardProps) {
 	const [revokeDialogOpen, setRevokeDialogOpen] = useState(false);
 	const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-
-	const handleRevokeConfirm = () => {
-		const success = revokeApiKey(apiKey.id);
-		if (success) {
-			toast.success(`API key "${apiKey.name}" has been revoked`);
-			onUpdate();
-		} else {
-			toast.error('Failed to revoke API key');
-		}
-		setRevokeDialogOpen(false);
-	};
-
-	const handleDeleteConfirm = () => {
-		const success = deleteApiKey(apiKey.id);
-		if (success) {
-			toast.success(`API key "${apiKey.name}" has been deleted`);
-			onUpdate();
-		} else {
-			toast.error('Failed to delete API key');
-		}
-		setDeleteDialogOpen(false);
-	};
+	const isActive = isApiKeyActive(apiKey);
+	const canDelete = canDeleteApiKey(apiKey);
 
 	return (
 		<>
-			<div className="rounded-xl border border-border-dark bg-surface-dark p-6 shadow-sm-dark transition-shadow hover:shadow-md">
+			<div
+				className={cn(
+					'rounded-xl border bg-surface-dark p-6 shadow-sm-dark transition-shadow hover:shadow-md',
+					selected ? 'border-primary/60' : 'border-border-dark'
+				)}
+			>
 				<div className="mb-4 flex items-start justify-between">
 					<div className="flex items-center gap-3">
+						<input
+							type="checkbox"
+							className="h-4 w-4 cursor-pointer accent-primary"
+							aria-label={`Select ${apiKey.name}`}
+							checked={selected}
+							onChange={() => onToggleSelected(apiKey.id)}
+						/>
 						<div
 							className={`rounded-lg p-2 ${
-								apiKey.revoked ? 'bg-muted' : 'bg-primary/10'
+								isActive ? 'bg-primary/10' : 'bg-muted'
 							}`}
 						>
-							{apiKey.revoked ? (
-								<ShieldAlert className="h-5 w-5 text-muted-foreground" />
-							) : (
+							{isActive ? (
 								<Shield className="h-5 w-5 text-primary" />
+							) : (
+								<ShieldAlert className="h-5 w-5 text-muted-foreground" />
 							)}
 						</div>
 						<div>
-							<h3 className="font-semibold text-lg">{apiKey.name}</h3>
+							<h3 className="font-semibold text-lg">
+								<Link
+									to={getKeyDetailPath(apiKey.id)}
+									className="hover:underline"
+								>
+									{apiKey.name}
+								</Link>
+							</h3>
 							<div className="mt-1">
-								<ApiKeyStatusBadge revoked={apiKey.revoked} />
+								<ApiKeyStatusBadge apiKey={apiKey} />
 							</div>
 						</div>
 					</div>
@@ -105,87 +125,120 @@ export function ApiKeyCard({
 							</Button>
 						</DropdownMenuTrigger>
 						<DropdownMenuContent align="end">
+							<DropdownMenuItem onClick={() => onEditDetails(apiKey)}>
+								Edit details
+							</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => onEditScopes(apiKey)}>
+								Edit scopes
+							</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => onEditRestrictions(apiKey)}>
+								Edit restrictions
+							</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => onEditLimits(apiKey)}>
+								Edit limits
+							</DropdownMenuItem>
 							<DropdownMenuItem onClick={() => onRegenerate(apiKey)}>
 								Regenerate
 							</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => onViewHistory(apiKey)}>
+								View history
+							</DropdownMenuItem>
 							<DropdownMenuSeparator />
 							<DropdownMenuItem
 								className="text-destructive"
 								onClick={() => {
-									if (apiKey.revoked) {
+									if (canDelete) {
 										setDeleteDialogOpen(true);
 									} else {
 										setRevokeDialogOpen(true);
 									}
 								}}
 							>
-								{apiKey.revoked ? 'Delete' : 'Revoke'}
+								{canDelete ? 'Delete' : 'Revoke'}
 							</DropdownMenuItem>
 						</DropdownMenuContent>
 					</DropdownMenu>
 				</div>
 
+				{apiKey.description && (
+					<p className="mb-4 text-sm text-muted-foreground">
+						{apiKey.description}
+					</p>
+				)}
+
 				<div className="mb-4 rounded-lg bg-muted/50 p-3">
 					<div className="text-xs font-medium text-muted-foreground mb-1">
 						API KEY
 					</div>
-					<code className="font-mono text-sm">{maskApiKey(apiKey.key)}</code>
+					<code className="font-mono text-sm">{getMaskedKey(apiKey)}</code>
+					<PreviousSecrets apiKey={apiKey} />
 				</div>
 
+				<div className="mb-4">
+					<div className="text-xs font-medium text-muted-foreground mb-1">
+						SCOPES
+					</div>
+					<ScopeChips scopes={apiKey.scopes} />
+				</div>
+
+				<div className="mb-4">
+					<div className="text-xs font-medium text-muted-foreground mb-1">
+						QUOTA
+					</div>
+					<QuotaMeter quota={quota} />
+				</div>
+
+				<div className="mb-4">
+					<div className="text-xs font-medium text-muted-foreground mb-1">
+						RESTRICTIONS
+					</div>
+					<KeyRestrictions apiKey={apiKey} />
+				</div>
+
+				{(apiKey.tags ?? []).length > 0 && (
+					<div className="mb-4">
+						<div className="text-xs font-medium text-muted-foreground mb-1">
+							TAGS
+						</div>
+						<KeyTags tags={apiKey.tags ?? []} />
+					</div>
+				)}
+
 				<div className="space-y-2 text-sm">
+					<div className="flex items-center gap-2 text-muted-foreground">
+						<User className="h-4 w-4" />
+						<span>{apiKey.owner || 'No owner'}</span>
+					</div>
 					<div className="flex items-center gap-2 text-muted-foreground">
 						<Calendar className="h-4 w-4" />
 						<span>Created {formatRelativeTime(apiKey.createdAt)}</span>
 					</div>
 					<div className="flex items-center gap-2 text-muted-foreground">
-						<Clock className="h-4 w-4" />
-						<span>Last used: Never</span>
+						<CalendarClock className="h-4 w-4" />
+						<span>
+							{apiKey.expiresAt
+								? `${getApiKeyStatus(apiKey) === 'expired' ? 'Expired' : 'Expires'} ${formatDate(apiKey.expiresAt)}`
+								: 'Never expires'}
+						</span>
+					</div>
+					<div className="flex items-start gap-2 text-muted-foreground">
+						<Clock className="mt-0.5 h-4 w-4" />
+						<KeyLastUsed usage={usage} label="Last used: " />
 					</div>
 				</div>
 			</div>
 
-			<AlertDialog open={revokeDialogOpen} onOpenChange={setRevokeDialogOpen}>
-				<AlertDialogContent>
-					<AlertDialogHeader>
-						<AlertDialogTitle>Revoke API Key?</AlertDialogTitle>
-						<AlertDialogDescription>
-							Are you sure you want to revoke "{apiKey.name}"? This action will
-							immediately invalidate the key and prevent it from making any
-							further API requests.
-						</AlertDialogDescription>
-					</AlertDialogHeader>
-					<AlertDialogFooter>
-						<AlertDialogCancel>Cancel</AlertDialogCancel>
-						<AlertDialogAction
-							onClick={handleRevokeConfirm}
-							className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-						>
-							Revoke Key
-						</AlertDialogAction>
-					</AlertDialogFooter>
-				</AlertDialogContent>
-			</AlertDialog>
+			<RevokeKeyDialog
+				open={revokeDialogOpen}
+				onOpenChange={setRevokeDialogOpen}
+				apiKey={apiKey}
+			/>
 
-			<AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-				<AlertDialogContent>
-					<AlertDialogHeader>
-						<AlertDialogTitle>Delete API Key?</AlertDialogTitle>
-						<AlertDialogDescription>
-							Are you sure you want to permanently delete "{apiKey.name}"? This
-							action cannot be undone. The key is already revoked and inactive.
-						</AlertDialogDescription>
-					</AlertDialogHeader>
-					<AlertDialogFooter>
-						<AlertDialogCancel>Cancel</AlertDialogCancel>
-						<AlertDialogAction
-							onClick={handleDeleteConfirm}
-							className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-						>
-							Delete Key
-						</AlertDialogAction>
-					</AlertDialogFooter>
-				</AlertDialogContent>
-			</AlertDialog>
+			<DeleteKeyDialog
+				open={deleteDialogOpen}
+				onOpenChange={setDeleteDialogOpen}
+				apiKey={apiKey}
+			/>
 		</>
 	);
 }
@@ -1,14 +1,26 @@
 import { Badge } from '@/components/ui/badge';
+import {
+	type ApiKey,
+	getApiKeyStatus,
+	getDaysUntilExpiry
+} from '@/lib/apiKeys';
+import { formatDate } from '@/lib/dateUtils';
 
 interface ApiKeyStatusBadgeProps {
-	revoked: boolean;
+	apiKey: ApiKey;
 }
 
 /**
- * Badge component for displaying API key status (Active or Revoked)
+ * Badge component for displaying API key status
+ * (Active, Expires in N days, Expired or Revoked)
  */
-export function ApiKeyStatusBadge({ revoked }: ApiKeyStatusBadgeProps) {
-	if (revoked) {
+export function ApiKeyStatusBadge({ apiKey }: ApiKeyStatusBadgeProps) {
+	const status = getApiKeyStatus(apiKey);
+	const expiryTitle = apiKey.expiresAt
+		? `Expires ${formatDate(apiKey.expiresAt)}`
+		: undefined;
+
+	if (status === 'revoked') {
 		return (
 			<Badge variant="secondary" className="gap-1.5">
 				<span className="h-2 w-2 rounded-full bg-muted-foreground" />
@@ -17,8 +29,37 @@ export function ApiKeyStatusBadge({ revoked }: ApiKeyStatusBadgeProps) {
 		);
 	}
 
+	if (status === 'expired') {
+		return (
+			<Badge
+				variant="secondary"
+				className="gap-1.5"
+				title={
+					apiKey.expiresAt
+						? `Expired ${formatDate(apiKey.expiresAt)}`
+						: undefined
+				}
+			>
+				<span className="h-2 w-2 rounded-full bg-red-500" />
+				Expired
+			</Badge>
+		);
+	}
+
+	if (status === 'expiring') {
+		const days = getDaysUntilExpiry(apiKey) ?? 0;
+		return (
+			<Badge variant="warning" className="gap-1.5" title={expiryTitle}>
+				<span className="h-2 w-2 rounded-full bg-amber-500" />
+				{days === 0
+					? 'Expires today'
+					: `Expires in ${days} day${days > 1 ? 's' : ''}`}
+			</Badge>
+		);
+	}
+
 	return (
-		<Badge variant="success" className="gap-1.5">
+		<Badge variant="success" className="gap-1.5" title={expiryTitle}>
 			<span className="h-2 w-2 rounded-full bg-green-500" />
 			Active
 		</Badge>
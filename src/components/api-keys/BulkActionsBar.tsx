@@ -0,0 +1,322 @@
+import { Ban, Download, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+	type ApiKey,
+	ApiKeyConflictError,
+	canDeleteApiKey,
+	deleteApiKeys,
+	getApiKeyStatus,
+	getMaskedKey,
+	restoreApiKeys,
+	revokeApiKeys,
+	TRASH_RETENTION_DAYS,
+	undoRevokeApiKey
+} from '@/lib/apiKeys';
+import { downloadFile } from '@/lib/download';
+import { formatScope } from '@/lib/scopes';
+import type { KeyUsageSummary } from '@/lib/usage';
+import { cn } from '@/lib/utils';
+import { showKeyConflictDialog } from './KeyConflictDialog';
+
+type BulkAction = 'revoke' | 'delete' | 'export';
+
+interface BulkActionsBarProps {
+	selectedKeys: ApiKey[];
+	/** Number of keys matching the current search and filters, on every page */
+	matchingCount: number;
+	usageByKey: Map<string, KeyUsageSummary>;
+	onSelectAllMatching: () => void;
+	onClearSelection: () => void;
+}
+
+/**
+ * Key metadata for a bulk export. Secrets are never included, only the masked key.
+ */
+function buildExport(keys: ApiKey[], usageByKey: Map<string, KeyUsageSummary>) {
+	return {
+		exportedAt: new Date().toISOString(),
+		keys: keys.map((key) => ({
+			id: key.id,
+			name: key.name,
+			environment: key.environment,
+			maskedKey: getMaskedKey(key),
+			status: getApiKeyStatus(key),
+			scopes: key.scopes.map(formatScope),
+			createdAt: key.createdAt,
+			expiresAt: key.expiresAt ?? null,
+			lastUsedAt: usageByKey.get(key.id)?.lastUsedAt ?? null
+		}))
+	};
+}
+
+/**
+ * Toolbar for acting on the selected keys, which can span pages.
+ * Each action asks for confirmation with a summary of the keys it affects.
+ */
+export function BulkActionsBar({
+	selectedKeys,
+	matchingCount,
+	usageByKey,
+	onSelectAllMatching,
+	onClearSelection
+}: BulkActionsBarProps) {
+	const { user } = useAuth();
+	const [pendingAction, setPendingAction] = useState<BulkAction | null>(null);
+
+	const revocableKeys = selectedKeys.filter((key) => !canDeleteApiKey(key));
+	const deletableKeys = selectedKeys.filter(canDeleteApiKey);
+
+	const affectedKeys =
+		pendingAction === 'revoke'
+			? revocableKeys
+			: pendingAction === 'delete'
+				? deletableKeys
+				: selectedKeys;
+	const skippedCount = selectedKeys.length - affectedKeys.length;
+
+	const handleConfirm = () => {
+		try {
+			runPendingAction();
+		} catch (err) {
+			setPendingAction(null);
+			if (err instanceof ApiKeyConflictError) {
+				showKeyConflictDialog(err);
+			} else {
+				toast.error(
+					err instanceof Error ? err.message : 'Failed to update API keys'
+				);
+			}
+		}
+	};
+
+	/**
+	 * Reactivate each revoked key on its own, so one that fails does not stop
+	 * the rest, then report how many came back.
+	 */
+	const undoRevoke = (keys: ApiKey[]) => {
+		let restored = 0;
+		let failure: string | null = null;
+		for (const key of keys) {
+			try {
+				if (undoRevokeApiKey(key)) restored++;
+			} catch (err) {
+				failure ??=
+					err instanceof Error ? err.message : 'Failed to reactivate API key';
+			}
+		}
+
+		const description =
+			failure ?? 'Some keys have changed since they were revoked';
+		if (restored === keys.length) {
+			toast.success(
+				`Reactivated ${restored} API key${restored === 1 ? '' : 's'}`
+			);
+		} else if (restored === 0) {
+			toast.error('Failed to reactivate API keys', { description });
+		} else {
+			toast.warning(`Reactivated ${restored} of ${keys.length} API keys`, {
+				description
+			});
+		}
+	};
+
+	const runPendingAction = () => {
+		const ids = affectedKeys.map((key) => key.id);
+		// Revisions the user saw, so keys changed in another tab are not overwritten
+		const revisions = Object.fromEntries(
+			affectedKeys.map((key) => [key.id, key.revision ?? 1])
+		);
+
+		if (pendingAction === 'revoke') {
+			const count = revokeApiKeys(ids, user?.email ?? null, revisions);
+			toast.success(`Revoked ${count} API key${count === 1 ? '' : 's'}`, {
+				action: {
+					label: 'Undo',
+					onClick: () => undoRevoke(affectedKeys)
+				}
+			});
+		} else if (pendingAction === 'delete') {
+			const count = deleteApiKeys(ids, user?.email ?? null, revisions);
+			toast.success(
+				`Moved ${count} API key${count === 1 ? '' : 's'} to the trash`,
+				{
+					action: {
+						label: 'Undo',
+						onClick: () => {
+							try {
+								const restored = restoreApiKeys(ids);
+								toast.success(
+									`Restored ${restored} API key${restored === 1 ? '' : 's'}`
+								);
+							} catch (err) {
+								toast.error(
+									err instanceof Error
+										? err.message
+										: 'Failed to restore API keys'
+								);
+							}
+						}
+					}
+				}
+			);
+		} else if (pendingAction === 'export') {
+			downloadFile(
+				`api_keys_export_${Date.now()}.json`,
+				JSON.stringify(buildExport(affectedKeys, usageByKey), null, 2),
+				'application/json'
+			);
+			toast.success(
+				`Exported ${affectedKeys.length} API key${affectedKeys.length === 1 ? '' : 's'}`
+			);
+		}
+
+		setPendingAction(null);
+		if (pendingAction !== 'export') {
+			onClearSelection();
+		}
+	};
+
+	if (selectedKeys.length === 0) return null;
+
+	const isDestructive = pendingAction !== 'export';
+	const dialogCopy: Record<
+		BulkAction,
+		{ title: string; description: string; confirm: string; skipped: string }
+	> = {
+		revoke: {
+			title: `Revoke ${affectedKeys.length} API key${affectedKeys.length === 1 ? '' : 's'}?`,
+			description:
+				'These keys will immediately stop working and cannot make any further API requests.',
+			confirm: 'Revoke Keys',
+			skipped: 'already revoked'
+		},
+		delete: {
+			title: `Delete ${affectedKeys.length} API key${affectedKeys.length === 1 ? '' : 's'}?`,
+			description: `These revoked keys will be moved to the trash and permanently deleted after ${TRASH_RETENTION_DAYS} days.`,
+			confirm: 'Delete Keys',
+			skipped: 'not revoked and will be kept'
+		},
+		export: {
+			title: `Export ${affectedKeys.length} API key${affectedKeys.length === 1 ? '' : 's'}?`,
+			description:
+				'Key names, masked keys, scopes, status and dates will be downloaded as JSON. Secrets are never exported.',
+			confirm: 'Export',
+			skipped: ''
+		}
+	};
+	const copy = pendingAction ? dialogCopy[pendingAction] : null;
+
+	return (
+		<>
+			<div className="flex flex-wrap items-center gap-2 rounded-xl border border-primary/40 bg-primary/5 px-4 py-2">
+				<span className="text-sm font-medium">
+					{selectedKeys.length} selected
+				</span>
+				{selectedKeys.length < matchingCount && (
+					<Button variant="link" size="sm" onClick={onSelectAllMatching}>
+						Select all {matchingCount} matching
+					</Button>
+				)}
+				<Button
+					variant="ghost"
+					size="sm"
+					className="gap-1"
+					onClick={onClearSelection}
+				>
+					<X className="h-4 w-4" />
+					Clear
+				</Button>
+				<div className="ml-auto flex flex-wrap gap-2">
+					<Button
+						variant="outline"
+						size="sm"
+						className="gap-2"
+						onClick={() => setPendingAction('export')}
+					>
+						<Download className="h-4 w-4" />
+						Export
+					</Button>
+					<Button
+						variant="outline"
+						size="sm"
+						className="gap-2"
+						disabled={revocableKeys.length === 0}
+						onClick={() => setPendingAction('revoke')}
+					>
+						<Ban className="h-4 w-4" />
+						Revoke ({revocableKeys.length})
+					</Button>
+					<Button
+						variant="outline"
+						size="sm"
+						className="gap-2 text-destructive"
+						disabled={deletableKeys.length === 0}
+						onClick={() => setPendingAction('delete')}
+					>
+						<Trash2 className="h-4 w-4" />
+						Delete ({deletableKeys.length})
+					</Button>
+				</div>
+			</div>
+
+			<AlertDialog
+				open={pendingAction !== null}
+				onOpenChange={(open) => !open && setPendingAction(null)}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>{copy?.title}</AlertDialogTitle>
+						<AlertDialogDescription>{copy?.description}</AlertDialogDescription>
+					</AlertDialogHeader>
+
+					<ul className="max-h-48 space-y-1 overflow-y-auto rounded-lg border p-3 text-sm">
+						{affectedKeys.map((key) => (
+							<li
+								key={key.id}
+								className="flex items-center justify-between gap-3"
+							>
+								<span className="truncate font-medium">{key.name}</span>
+								<code className="font-mono text-xs text-muted-foreground">
+									{getMaskedKey(key)}
+								</code>
+							</li>
+						))}
+					</ul>
+
+					{skippedCount > 0 && copy?.skipped && (
+						<p className="text-xs text-muted-foreground">
+							{skippedCount} selected key{skippedCount === 1 ? ' is' : 's are'}{' '}
+							{copy.skipped}.
+						</p>
+					)}
+
+					<AlertDialogFooter>
+						<AlertDialogCancel>Cancel</AlertDialogCancel>
+						<AlertDialogAction
+							onClick={handleConfirm}
+							className={cn(
+								isDestructive &&
+									'bg-destructive text-destructive-foreground hover:bg-destructive/90'
+							)}
+						>
+							{copy?.confirm}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</>
+	);
+}
@@ -0,0 +1,146 @@
+import { AlertTriangle, Check, ScanSearch, X } from 'lucide-react';
+import { type ReactNode, useEffect, useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { type ApiKeyFormatCheck, validateApiKeyFormat } from '@/lib/keyFormat';
+
+interface CheckKeyModalProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	/** Environment currently shown in the dashboard */
+	environment: 'test' | 'production';
+}
+
+type CheckState = 'pass' | 'warn' | 'fail';
+
+const STATE_ICONS: Record<CheckState, ReactNode> = {
+	pass: <Check className="h-4 w-4 text-green-500" />,
+	warn: <AlertTriangle className="h-4 w-4 text-amber-500" />,
+	fail: <X className="h-4 w-4 text-destructive" />
+};
+
+function CheckRow({
+	state,
+	label,
+	children
+}: {
+	state: CheckState;
+	label: string;
+	children: ReactNode;
+}) {
+	return (
+		<li className="flex items-start gap-3">
+			<span className="mt-0.5">{STATE_ICONS[state]}</span>
+			<div>
+				<p className="text-sm font-medium">{label}</p>
+				<p className="text-xs text-muted-foreground">{children}</p>
+			</div>
+		</li>
+	);
+}
+
+function environmentLabel(environment: 'test' | 'production'): string {
+	return environment === 'test' ? 'Test' : 'Production';
+}
+
+/**
+ * Results of an offline format check, one row per property
+ */
+function CheckResults({
+	result,
+	environment
+}: {
+	result: ApiKeyFormatCheck;
+	environment: 'test' | 'production';
+}) {
+	return (
+		<ul className="space-y-3 rounded-lg border p-4">
+			<CheckRow state={result.environment ? 'pass' : 'fail'} label="Prefix">
+				{result.environment
+					? `${result.prefix}_ is a known prefix`
+					: (result.problems[0] ?? 'Unknown prefix')}
+			</CheckRow>
+			{result.environment && (
+				<CheckRow
+					state={result.environment === environment ? 'pass' : 'warn'}
+					label="Environment"
+				>
+					{environmentLabel(result.environment)} key
+					{result.environment !== environment &&
+						` — you are viewing ${environmentLabel(environment).toLowerCase()} keys`}
+				</CheckRow>
+			)}
+			<CheckRow
+				state={
+					result.checksum === 'valid'
+						? 'pass'
+						: result.checksum === 'missing'
+							? 'warn'
+							: 'fail'
+				}
+				label="Checksum"
+			>
+				{result.checksum === 'valid'
+					? 'Checksum matches; the key was copied correctly'
+					: result.checksum === 'missing'
+						? 'Legacy key without a checksum; it cannot be verified offline'
+						: (result.problems.at(-1) ?? 'Checksum does not match')}
+			</CheckRow>
+		</ul>
+	);
+}
+
+/**
+ * Support tool for checking a pasted key's prefix, environment and checksum
+ * without looking it up. Nothing entered here is stored.
+ */
+export function CheckKeyModal({
+	open,
+	onOpenChange,
+	environment
+}: CheckKeyModalProps) {
+	const [input, setInput] = useState('');
+
+	useEffect(() => {
+		if (!open) setInput('');
+	}, [open]);
+
+	const result = input.trim() ? validateApiKeyFormat(input) : null;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[540px]">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<ScanSearch className="h-5 w-5" />
+						Check a Key
+					</DialogTitle>
+					<DialogDescription>
+						Paste a key to see if it is well formed and which environment it
+						belongs to. This does not tell whether the key exists or is active.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="grid gap-4 py-2">
+					<Input
+						aria-label="API key to check"
+						placeholder="sk_sandbox_..."
+						className="font-mono"
+						value={input}
+						onChange={(e) => setInput(e.target.value)}
+						autoComplete="off"
+						spellCheck={false}
+						autoFocus
+					/>
+					{result && <CheckResults result={result} environment={environment} />}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
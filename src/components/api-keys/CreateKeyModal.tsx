@@ -1,10 +1,4 @@
-import {
-	AlertTriangle,
-	Check,
-	Download,
-	FlaskConical,
-	Rocket
-} from 'lucide-react';
+import { AlertTriangle, Check, FlaskConical, Rocket } from 'lucide-react';
 import { useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -17,42 +11,76 @@ import {
 	DialogTitle
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
 import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { useApiKeys } from '@/hooks/useApiKeys';
+import { parseAllowlistInput } from '@/lib/allowlist';
 import { createApiKey } from '@/lib/apiKeys';
+import {
+	DEFAULT_EXPIRY_CHOICE,
+	type ExpiryChoice,
+	resolveExpiry
+} from '@/lib/expiry';
+import type { RevealedKeyDetails } from '@/lib/keyDownloadFormats';
+import { getKeyNameError } from '@/lib/keyName';
+import type { ApiKeyScope } from '@/lib/scopes';
 import { CopyButton } from './CopyButton';
+import { ExpirySelector } from './ExpirySelector';
+import { KeyDownloadOptions } from './KeyDownloadOptions';
+import {
+	EMPTY_RESTRICTIONS_DRAFT,
+	type RestrictionsDraft,
+	RestrictionsEditor
+} from './RestrictionsEditor';
+import { ScopeSelector } from './ScopeSelector';
 
 interface CreateKeyModalProps {
 	open: boolean;
 	onOpenChange: (open: boolean) => void;
-	onKeyCreated?: () => void;
 }
 
-export function CreateKeyModal({
-	open,
-	onOpenChange,
-	onKeyCreated
-}: CreateKeyModalProps) {
+export function CreateKeyModal({ open, onOpenChange }: CreateKeyModalProps) {
 	const { mode } = useEnvironment();
+	const { user } = useAuth();
+	const { keys: existingKeys } = useApiKeys();
 	const [step, setStep] = useState<'form' | 'reveal'>('form');
 	const [name, setName] = useState('');
-	const [createdKey, setCreatedKey] = useState<{
-		name: string;
-		key: string;
-	} | null>(null);
+	const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+	const [expiry, setExpiry] = useState<ExpiryChoice>(DEFAULT_EXPIRY_CHOICE);
+	const [restrictions, setRestrictions] = useState<RestrictionsDraft>(
+		EMPTY_RESTRICTIONS_DRAFT
+	);
+	const [createdKey, setCreatedKey] = useState<RevealedKeyDetails | null>(null);
 	const [isFlashing, setIsFlashing] = useState(false);
 	const [error, setError] = useState('');
 	const [isSubmitting, setIsSubmitting] = useState(false);
 
-	const handleSubmit = (e: React.FormEvent) => {
+	// Only validate once something has been typed, so the empty form shows no error
+	const nameError = name
+		? getKeyNameError(name, { environment: mode, existingKeys })
+		: null;
+
+	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
 		setError('');
 		setIsSubmitting(true);
 
 		try {
-			const newKey = createApiKey(name, mode);
+			const { apiKey, secret } = await createApiKey(name, mode, {
+				scopes,
+				expiresAt: resolveExpiry(expiry),
+				actor: user?.email ?? null,
+				restrictions: {
+					allowedIps: parseAllowlistInput(restrictions.allowedIps),
+					allowedOrigins: parseAllowlistInput(restrictions.allowedOrigins)
+				}
+			});
 			setCreatedKey({
-				name: newKey.name,
-				key: newKey.key
+				name: apiKey.name,
+				environment: apiKey.environment,
+				key: secret,
+				event: 'created',
+				timestamp: apiKey.createdAt
 			});
 			setStep('reveal');
 		} catch (err) {
@@ -67,47 +95,21 @@ export function CreateKeyModal({
 		setTimeout(() => setIsFlashing(false), 500);
 	};
 
-	const handleDownload = () => {
-		if (!createdKey) return;
-
-		const content = `API Key: ${createdKey.name}
-Environment: ${mode}
-Key: ${createdKey.key}
-Created: ${new Date().toISOString()}
-
-⚠️ SECURITY WARNING ⚠️
-• Keep this key secure and never share it publicly
-• Store this file in a secure location (e.g., password manager)
-• Never commit this file to version control
-• Delete this file once you've stored the key securely
-`;
-
-		const blob = new Blob([content], { type: 'text/plain' });
-		const url = URL.createObjectURL(blob);
-		const a = document.createElement('a');
-		a.href = url;
-		a.download = `${createdKey.name.replace(/\s+/g, '_')}_${Date.now()}.txt`;
-		document.body.appendChild(a);
-		a.click();
-		document.body.removeChild(a);
-		URL.revokeObjectURL(url);
-	};
-
 	const handleClose = () => {
 		setStep('form');
 		setName('');
+		setScopes([]);
+		setExpiry(DEFAULT_EXPIRY_CHOICE);
+		setRestrictions(EMPTY_RESTRICTIONS_DRAFT);
 		setCreatedKey(null);
 		setIsFlashing(false);
 		setError('');
 		onOpenChange(false);
-		if (createdKey && onKeyCreated) {
-			onKeyCreated();
-		}
 	};
 
 	return (
 		<Dialog open={open} onOpenChange={handleClose}>
-			<DialogContent className="sm:max-w-[540px]">
+			<DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[540px]">
 				{step === 'form' ? (
 					<>
 						<DialogHeader>
@@ -142,14 +144,37 @@ Created: ${new Date().toISOString()}
 										placeholder="e.g., Production Server Key"
 										value={name}
 										onChange={(e) => setName(e.target.value)}
+										aria-invalid={Boolean(nameError)}
 										required
 										autoFocus
 									/>
-									<p className="text-xs text-muted-foreground">
-										A descriptive name to help you identify this key
-									</p>
+									{nameError ? (
+										<p className="text-xs text-destructive">{nameError}</p>
+									) : (
+										<p className="text-xs text-muted-foreground">
+											A descriptive name to help you identify this key
+										</p>
+									)}
 								</div>
 
+								<ScopeSelector
+									value={scopes}
+									onChange={setScopes}
+									disabled={isSubmitting}
+								/>
+
+								<ExpirySelector
+									value={expiry}
+									onChange={setExpiry}
+									disabled={isSubmitting}
+								/>
+
+								<RestrictionsEditor
+									value={restrictions}
+									onChange={setRestrictions}
+									disabled={isSubmitting}
+								/>
+
 								{error && (
 									<div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
 										{error}
@@ -166,7 +191,15 @@ Created: ${new Date().toISOString()}
 								>
 									Cancel
 								</Button>
-								<Button type="submit" disabled={!name.trim() || isSubmitting}>
+								<Button
+									type="submit"
+									disabled={
+										!name.trim() ||
+										Boolean(nameError) ||
+										scopes.length === 0 ||
+										isSubmitting
+									}
+								>
 									{isSubmitting ? 'Creating...' : 'Create Key'}
 								</Button>
 							</DialogFooter>
@@ -196,6 +229,10 @@ Created: ${new Date().toISOString()}
 											<li>
 												• This is the only time you'll see the full key value
 											</li>
+											<li>
+												• Only a hash of the key is stored, so it can't be
+												recovered later
+											</li>
 											<li>
 												• Copy or download the key before closing this window
 											</li>
@@ -232,15 +269,9 @@ Created: ${new Date().toISOString()}
 									className="flex-1"
 									onCopySuccess={handleCopySuccess}
 								/>
-								<Button
-									variant="outline"
-									className="flex-1 gap-2"
-									onClick={handleDownload}
-								>
-									<Download className="h-4 w-4" />
-									Download
-								</Button>
 							</div>
+
+							<KeyDownloadOptions details={createdKey} />
 						</div>
 
 						<DialogFooter>
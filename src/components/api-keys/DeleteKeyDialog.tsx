@@ -0,0 +1,110 @@
+import { toast } from 'sonner';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+	type ApiKey,
+	ApiKeyConflictError,
+	deleteApiKey,
+	restoreApiKey,
+	TRASH_RETENTION_DAYS
+} from '@/lib/apiKeys';
+import { showKeyConflictDialog } from './KeyConflictDialog';
+
+interface DeleteKeyDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	apiKey: ApiKey;
+	/** Called after the key is moved to the trash, e.g. to leave its page */
+	onDeleted?: () => void;
+	/** Called if the deletion is undone from the toast */
+	onRestored?: () => void;
+}
+
+/**
+ * Confirmation dialog for moving a key to the trash, with an undo action on the resulting toast
+ */
+export function DeleteKeyDialog({
+	open,
+	onOpenChange,
+	apiKey,
+	onDeleted,
+	onRestored
+}: DeleteKeyDialogProps) {
+	const { user } = useAuth();
+
+	const handleDeleteConfirm = () => {
+		let success: boolean;
+		try {
+			success = deleteApiKey(apiKey.id, user?.email ?? null, apiKey.revision);
+		} catch (err) {
+			if (err instanceof ApiKeyConflictError) {
+				showKeyConflictDialog(err);
+			} else {
+				toast.error(
+					err instanceof Error ? err.message : 'Failed to delete API key'
+				);
+			}
+			onOpenChange(false);
+			return;
+		}
+
+		if (success) {
+			toast.success(`API key "${apiKey.name}" has been moved to the trash`, {
+				action: {
+					label: 'Undo',
+					onClick: () => {
+						try {
+							if (restoreApiKey(apiKey.id)) {
+								toast.success(`API key "${apiKey.name}" has been restored`);
+								onRestored?.();
+							} else {
+								toast.error('Failed to restore API key');
+							}
+						} catch (err) {
+							toast.error(
+								err instanceof Error ? err.message : 'Failed to restore API key'
+							);
+						}
+					}
+				}
+			});
+			onDeleted?.();
+		} else {
+			toast.error('Failed to delete API key');
+		}
+		onOpenChange(false);
+	};
+
+	return (
+		<AlertDialog open={open} onOpenChange={onOpenChange}>
+			<AlertDialogContent>
+				<AlertDialogHeader>
+					<AlertDialogTitle>Delete API Key?</AlertDialogTitle>
+					<AlertDialogDescription>
+						"{apiKey.name}" will be moved to the trash, where it can be restored
+						for {TRASH_RETENTION_DAYS} days before it is permanently deleted.
+						The key is already inactive.
+					</AlertDialogDescription>
+				</AlertDialogHeader>
+				<AlertDialogFooter>
+					<AlertDialogCancel>Cancel</AlertDialogCancel>
+					<AlertDialogAction
+						onClick={handleDeleteConfirm}
+						className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+					>
+						Delete Key
+					</AlertDialogAction>
+				</AlertDialogFooter>
+			</AlertDialogContent>
+		</AlertDialog>
+	);
+}
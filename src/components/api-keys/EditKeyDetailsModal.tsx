@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useApiKeys } from '@/hooks/useApiKeys';
+import {
+	type ApiKey,
+	ApiKeyConflictError,
+	updateApiKeyDetails
+} from '@/lib/apiKeys';
+import { MAX_DESCRIPTION_LENGTH, parseTags } from '@/lib/keyMetadata';
+import { getKeyNameError } from '@/lib/keyName';
+import { showKeyConflictDialog } from './KeyConflictDialog';
+
+interface EditKeyDetailsModalProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	apiKey: ApiKey | null;
+}
+
+/**
+ * Dialog for editing a key's name, description, owner and tags
+ */
+export function EditKeyDetailsModal({
+	open,
+	onOpenChange,
+	apiKey
+}: EditKeyDetailsModalProps) {
+	const [name, setName] = useState('');
+	const [description, setDescription] = useState('');
+	const [owner, setOwner] = useState('');
+	const [tagsInput, setTagsInput] = useState('');
+	const [error, setError] = useState('');
+
+	useEffect(() => {
+		if (open && apiKey) {
+			setName(apiKey.name);
+			setDescription(apiKey.description ?? '');
+			setOwner(apiKey.owner ?? '');
+			setTagsInput((apiKey.tags ?? []).join(', '));
+			setError('');
+		}
+	}, [open, apiKey]);
+
+	const { keys: existingKeys } = useApiKeys();
+	const nameError =
+		apiKey && name !== apiKey.name
+			? getKeyNameError(name, {
+					environment: apiKey.environment,
+					existingKeys,
+					excludeId: apiKey.id
+				})
+			: null;
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!apiKey) return;
+		setError('');
+
+		try {
+			const updated = updateApiKeyDetails(
+				apiKey.id,
+				{
+					name,
+					description,
+					owner,
+					tags: parseTags(tagsInput)
+				},
+				apiKey.revision
+			);
+			if (!updated) {
+				throw new Error('Failed to update key details');
+			}
+			toast.success(`"${updated.name}" has been updated`);
+			onOpenChange(false);
+		} catch (err) {
+			if (err instanceof ApiKeyConflictError) {
+				onOpenChange(false);
+				showKeyConflictDialog(err);
+				return;
+			}
+			setError(
+				err instanceof Error ? err.message : 'Failed to update key details'
+			);
+		}
+	};
+
+	if (!apiKey) return null;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[540px]">
+				<DialogHeader>
+					<DialogTitle>Edit Details</DialogTitle>
+					<DialogDescription>
+						Describe what "{apiKey.name}" is for and who is responsible for it.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit}>
+					<div className="grid gap-4 py-4">
+						<div className="grid gap-2">
+							<label htmlFor="edit-name" className="text-sm font-medium">
+								Name <span className="text-destructive">*</span>
+							</label>
+							<Input
+								id="edit-name"
+								value={name}
+								onChange={(e) => setName(e.target.value)}
+								aria-invalid={Boolean(nameError)}
+								required
+							/>
+							{nameError && (
+								<p className="text-xs text-destructive">{nameError}</p>
+							)}
+						</div>
+
+						<div className="grid gap-2">
+							<label htmlFor="edit-description" className="text-sm font-medium">
+								Description
+							</label>
+							<textarea
+								id="edit-description"
+								rows={3}
+								maxLength={MAX_DESCRIPTION_LENGTH}
+								placeholder="e.g., Used by the billing worker to create invoices"
+								className="border-input dark:bg-surface-dark w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+								value={description}
+								onChange={(e) => setDescription(e.target.value)}
+							/>
+						</div>
+
+						<div className="grid gap-2">
+							<label htmlFor="edit-owner" className="text-sm font-medium">
+								Owner
+							</label>
+							<Input
+								id="edit-owner"
+								placeholder="e.g., payments-team@example.com"
+								value={owner}
+								onChange={(e) => setOwner(e.target.value)}
+							/>
+						</div>
+
+						<div className="grid gap-2">
+							<label htmlFor="edit-tags" className="text-sm font-medium">
+								Tags
+							</label>
+							<Input
+								id="edit-tags"
+								placeholder="e.g., service:billing, team:mobile"
+								value={tagsInput}
+								onChange={(e) => setTagsInput(e.target.value)}
+							/>
+							<p className="text-xs text-muted-foreground">
+								Separate tags with commas or spaces
+							</p>
+						</div>
+
+						{error && (
+							<div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+								{error}
+							</div>
+						)}
+					</div>
+
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={!name.trim() || Boolean(nameError)}>
+							Save Details
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+	type ApiKey,
+	ApiKeyConflictError,
+	updateApiKeyLimits
+} from '@/lib/apiKeys';
+import { showKeyConflictDialog } from './KeyConflictDialog';
+
+interface EditLimitsModalProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	apiKey: ApiKey | null;
+}
+
+/**
+ * Parse a limit input. Empty means no limit.
+ */
+function parseLimit(value: string): number | null {
+	return value.trim() === '' ? null : Number(value);
+}
+
+export function EditLimitsModal({
+	open,
+	onOpenChange,
+	apiKey
+}: EditLimitsModalProps) {
+	const [rateLimit, setRateLimit] = useState('');
+	const [monthlyQuota, setMonthlyQuota] = useState('');
+	const [error, setError] = useState('');
+
+	useEffect(() => {
+		if (open && apiKey) {
+			setRateLimit(apiKey.rateLimitPerMinute?.toString() ?? '');
+			setMonthlyQuota(apiKey.monthlyQuota?.toString() ?? '');
+			setError('');
+		}
+	}, [open, apiKey]);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!apiKey) return;
+		setError('');
+
+		try {
+			const updated = updateApiKeyLimits(
+				apiKey.id,
+				{
+					rateLimitPerMinute: parseLimit(rateLimit),
+					monthlyQuota: parseLimit(monthlyQuota)
+				},
+				apiKey.revision
+			);
+			if (!updated) {
+				throw new Error('Failed to update limits');
+			}
+			toast.success(`Limits for "${apiKey.name}" have been updated`);
+			onOpenChange(false);
+		} catch (err) {
+			if (err instanceof ApiKeyConflictError) {
+				onOpenChange(false);
+				showKeyConflictDialog(err);
+				return;
+			}
+			setError(err instanceof Error ? err.message : 'Failed to update limits');
+		}
+	};
+
+	if (!apiKey) return null;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[480px]">
+				<DialogHeader>
+					<DialogTitle>Edit Limits</DialogTitle>
+					<DialogDescription>
+						Cap how much "{apiKey.name}" can be used. Requests over a limit are
+						rejected with 429. Leave a field empty for no limit.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit}>
+					<div className="grid gap-4 py-4">
+						<div className="grid gap-2">
+							<label htmlFor="rate-limit" className="text-sm font-medium">
+								Requests per minute
+							</label>
+							<Input
+								id="rate-limit"
+								type="number"
+								min={1}
+								step={1}
+								placeholder="No limit"
+								value={rateLimit}
+								onChange={(e) => setRateLimit(e.target.value)}
+							/>
+						</div>
+
+						<div className="grid gap-2">
+							<label htmlFor="monthly-quota" className="text-sm font-medium">
+								Monthly quota
+							</label>
+							<Input
+								id="monthly-quota"
+								type="number"
+								min={1}
+								step={1}
+								placeholder="No quota"
+								value={monthlyQuota}
+								onChange={(e) => setMonthlyQuota(e.target.value)}
+							/>
+							<p className="text-xs text-muted-foreground">
+								Requests per calendar month (UTC)
+							</p>
+						</div>
+
+						{error && (
+							<div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+								{error}
+							</div>
+						)}
+					</div>
+
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button type="submit">Save Limits</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import { parseAllowlistInput } from '@/lib/allowlist';
+import {
+	type ApiKey,
+	ApiKeyConflictError,
+	updateApiKeyRestrictions
+} from '@/lib/apiKeys';
+import { showKeyConflictDialog } from './KeyConflictDialog';
+import {
+	EMPTY_RESTRICTIONS_DRAFT,
+	type RestrictionsDraft,
+	RestrictionsEditor
+} from './RestrictionsEditor';
+
+interface EditRestrictionsModalProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	apiKey: ApiKey | null;
+}
+
+export function EditRestrictionsModal({
+	open,
+	onOpenChange,
+	apiKey
+}: EditRestrictionsModalProps) {
+	const [draft, setDraft] = useState<RestrictionsDraft>(
+		EMPTY_RESTRICTIONS_DRAFT
+	);
+	const [error, setError] = useState('');
+
+	useEffect(() => {
+		if (open && apiKey) {
+			setDraft({
+				allowedIps: (apiKey.allowedIps ?? []).join('\n'),
+				allowedOrigins: (apiKey.allowedOrigins ?? []).join('\n')
+			});
+			setError('');
+		}
+	}, [open, apiKey]);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!apiKey) return;
+		setError('');
+
+		try {
+			const updated = updateApiKeyRestrictions(
+				apiKey.id,
+				{
+					allowedIps: parseAllowlistInput(draft.allowedIps),
+					allowedOrigins: parseAllowlistInput(draft.allowedOrigins)
+				},
+				apiKey.revision
+			);
+			if (!updated) {
+				throw new Error('Failed to update restrictions');
+			}
+			toast.success(`Restrictions for "${apiKey.name}" have been updated`);
+			onOpenChange(false);
+		} catch (err) {
+			if (err instanceof ApiKeyConflictError) {
+				onOpenChange(false);
+				showKeyConflictDialog(err);
+				return;
+			}
+			setError(
+				err instanceof Error ? err.message : 'Failed to update restrictions'
+			);
+		}
+	};
+
+	if (!apiKey) return null;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[540px]">
+				<DialogHeader>
+					<DialogTitle>Edit Restrictions</DialogTitle>
+					<DialogDescription>
+						Limit where "{apiKey.name}" can be used from. Requests from other
+						IPs or origins are rejected with 403.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit}>
+					<div className="grid gap-4 py-4">
+						<RestrictionsEditor value={draft} onChange={setDraft} />
+
+						{error && (
+							<div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+								{error}
+							</div>
+						)}
+					</div>
+
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button type="submit">Save Restrictions</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import {
+	type ApiKey,
+	ApiKeyConflictError,
+	updateApiKeyScopes
+} from '@/lib/apiKeys';
+import type { ApiKeyScope } from '@/lib/scopes';
+import { showKeyConflictDialog } from './KeyConflictDialog';
+import { ScopeSelector } from './ScopeSelector';
+
+interface EditScopesModalProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	apiKey: ApiKey | null;
+}
+
+export function EditScopesModal({
+	open,
+	onOpenChange,
+	apiKey
+}: EditScopesModalProps) {
+	const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+	const [error, setError] = useState('');
+
+	useEffect(() => {
+		if (open && apiKey) {
+			setScopes(apiKey.scopes);
+			setError('');
+		}
+	}, [open, apiKey]);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!apiKey) return;
+		setError('');
+
+		try {
+			const updated = updateApiKeyScopes(apiKey.id, scopes, apiKey.revision);
+			if (!updated) {
+				throw new Error('Failed to update scopes');
+			}
+			toast.success(`Scopes for "${apiKey.name}" have been updated`);
+			onOpenChange(false);
+		} catch (err) {
+			if (err instanceof ApiKeyConflictError) {
+				onOpenChange(false);
+				showKeyConflictDialog(err);
+				return;
+			}
+			setError(err instanceof Error ? err.message : 'Failed to update scopes');
+		}
+	};
+
+	if (!apiKey) return null;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[540px]">
+				<DialogHeader>
+					<DialogTitle>Edit Scopes</DialogTitle>
+					<DialogDescription>
+						Change which resources "{apiKey.name}" can access. Changes take
+						effect immediately.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit}>
+					<div className="grid gap-4 py-4">
+						<ScopeSelector value={scopes} onChange={setScopes} />
+
+						{error && (
+							<div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+								{error}
+							</div>
+						)}
+					</div>
+
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={scopes.length === 0}>
+							Save Scopes
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,153 @@
+import { Lock } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { downloadFile } from '@/lib/download';
+import type { RevealedKeyDetails } from '@/lib/keyDownloadFormats';
+import {
+	encryptKeyFile,
+	getEncryptedKeyFilename,
+	getPassphraseError
+} from '@/lib/keyEncryption';
+
+interface EncryptKeyDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	details: RevealedKeyDetails | null;
+}
+
+/**
+ * Ask for a passphrase and download the key as an encrypted file that can be
+ * opened with "Import encrypted key file"
+ */
+export function EncryptKeyDialog({
+	open,
+	onOpenChange,
+	details
+}: EncryptKeyDialogProps) {
+	const [passphrase, setPassphrase] = useState('');
+	const [confirmation, setConfirmation] = useState('');
+	const [error, setError] = useState('');
+	const [isEncrypting, setIsEncrypting] = useState(false);
+
+	useEffect(() => {
+		if (!open) {
+			setPassphrase('');
+			setConfirmation('');
+			setError('');
+		}
+	}, [open]);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!details) return;
+
+		const passphraseError = getPassphraseError(passphrase);
+		if (passphraseError) {
+			setError(passphraseError);
+			return;
+		}
+		if (passphrase !== confirmation) {
+			setError('Passphrases do not match');
+			return;
+		}
+
+		setError('');
+		setIsEncrypting(true);
+		try {
+			downloadFile(
+				getEncryptedKeyFilename(details),
+				await encryptKeyFile(details, passphrase),
+				'application/json'
+			);
+			toast.success('Encrypted key file downloaded');
+			onOpenChange(false);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to encrypt key');
+		} finally {
+			setIsEncrypting(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[440px]">
+				<form onSubmit={handleSubmit}>
+					<DialogHeader>
+						<DialogTitle className="flex items-center gap-2">
+							<Lock className="h-5 w-5" />
+							Encrypt Key File
+						</DialogTitle>
+						<DialogDescription>
+							The file can only be opened with this passphrase. Share the
+							passphrase through a different channel than the file.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="grid gap-4 py-4">
+						<div className="grid gap-2">
+							<label
+								htmlFor="encrypt-passphrase"
+								className="text-sm font-medium"
+							>
+								Passphrase
+							</label>
+							<Input
+								id="encrypt-passphrase"
+								type="password"
+								autoComplete="new-password"
+								value={passphrase}
+								onChange={(e) => setPassphrase(e.target.value)}
+								autoFocus
+							/>
+						</div>
+						<div className="grid gap-2">
+							<label
+								htmlFor="encrypt-passphrase-confirm"
+								className="text-sm font-medium"
+							>
+								Confirm passphrase
+							</label>
+							<Input
+								id="encrypt-passphrase-confirm"
+								type="password"
+								autoComplete="new-password"
+								value={confirmation}
+								onChange={(e) => setConfirmation(e.target.value)}
+							/>
+						</div>
+
+						{error && (
+							<div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+								{error}
+							</div>
+						)}
+					</div>
+
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+							disabled={isEncrypting}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={!passphrase || isEncrypting}>
+							{isEncrypting ? 'Encrypting...' : 'Encrypt & Download'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,72 @@
+import { Input } from '@/components/ui/input';
+import {
+	EXPIRY_OPTIONS,
+	type ExpiryChoice,
+	toDateInputValue
+} from '@/lib/expiry';
+import { cn } from '@/lib/utils';
+
+interface ExpirySelectorProps {
+	value: ExpiryChoice;
+	onChange: (choice: ExpiryChoice) => void;
+	disabled?: boolean;
+}
+
+/**
+ * Expiration picker: 30/90/365 days, a custom date, or never.
+ */
+export function ExpirySelector({
+	value,
+	onChange,
+	disabled = false
+}: ExpirySelectorProps) {
+	const tomorrow = new Date();
+	tomorrow.setDate(tomorrow.getDate() + 1);
+
+	return (
+		<div className="grid gap-2">
+			<span className="text-sm font-medium">Expiration</span>
+			<div
+				className="flex flex-wrap items-center gap-1 rounded-lg border border-border-dark bg-surface-dark p-1"
+				role="radiogroup"
+				aria-label="Expiration"
+			>
+				{EXPIRY_OPTIONS.map((option) => (
+					<button
+						key={option.value}
+						type="button"
+						role="radio"
+						aria-checked={value.option === option.value}
+						disabled={disabled}
+						onClick={() => onChange({ ...value, option: option.value })}
+						className={cn(
+							'rounded-md px-3 py-1 text-xs font-medium transition-colors',
+							value.option === option.value
+								? 'bg-primary text-primary-foreground'
+								: 'text-muted-foreground hover:text-foreground'
+						)}
+					>
+						{option.label}
+					</button>
+				))}
+			</div>
+
+			{value.option === 'custom' && (
+				<Input
+					type="date"
+					aria-label="Custom expiration date"
+					min={toDateInputValue(tomorrow)}
+					value={value.customDate}
+					onChange={(e) => onChange({ ...value, customDate: e.target.value })}
+					disabled={disabled}
+				/>
+			)}
+
+			<p className="text-xs text-muted-foreground">
+				{value.option === 'never'
+					? 'The key stays valid until it is revoked.'
+					: 'The key stops working automatically after this date.'}
+			</p>
+		</div>
+	);
+}
@@ -0,0 +1,228 @@
+import { FileKey, FileUp } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { getKeyDetailPath } from '@/config/routes';
+import { useApiKeys } from '@/hooks/useApiKeys';
+import type { RevealedKeyDetails } from '@/lib/keyDownloadFormats';
+import { decryptKeyFile } from '@/lib/keyEncryption';
+import { type LeakedKey, scanForLeakedKeys } from '@/lib/leakScanner';
+import { cn } from '@/lib/utils';
+import { ApiKeyStatusBadge } from './ApiKeyStatusBadge';
+import { CopyButton } from './CopyButton';
+
+interface ImportKeyModalProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+/** Encrypted key files are a few hundred bytes; anything larger is not one */
+const MAX_IMPORT_FILE_SIZE = 64 * 1024;
+
+/**
+ * Open a passphrase-encrypted key file. The file is decrypted in the browser
+ * and the key is only kept in component state while the dialog is open.
+ */
+export function ImportKeyModal({ open, onOpenChange }: ImportKeyModalProps) {
+	const { keys } = useApiKeys();
+	const [file, setFile] = useState<File | null>(null);
+	const [passphrase, setPassphrase] = useState('');
+	const [error, setError] = useState('');
+	const [isDecrypting, setIsDecrypting] = useState(false);
+	const [isDragging, setIsDragging] = useState(false);
+	const [details, setDetails] = useState<RevealedKeyDetails | null>(null);
+	const [match, setMatch] = useState<LeakedKey | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	useEffect(() => {
+		if (!open) {
+			setFile(null);
+			setPassphrase('');
+			setError('');
+			setDetails(null);
+			setMatch(null);
+		}
+	}, [open]);
+
+	const selectFile = (selected: File) => {
+		if (selected.size > MAX_IMPORT_FILE_SIZE) {
+			setError('This is not an encrypted key file');
+			return;
+		}
+		setFile(selected);
+		setError('');
+	};
+
+	const handleDrop = (e: React.DragEvent) => {
+		e.preventDefault();
+		setIsDragging(false);
+		const dropped = e.dataTransfer.files[0];
+		if (dropped) selectFile(dropped);
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!file) return;
+
+		setError('');
+		setIsDecrypting(true);
+		try {
+			const decrypted = await decryptKeyFile(await file.text(), passphrase);
+			const [found] = await scanForLeakedKeys(decrypted.key, keys);
+			setDetails(decrypted);
+			setMatch(found ?? null);
+			setPassphrase('');
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to decrypt file');
+		} finally {
+			setIsDecrypting(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[520px]">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<FileKey className="h-5 w-5" />
+						Import Encrypted Key File
+					</DialogTitle>
+					<DialogDescription>
+						Open a key file that was downloaded with a passphrase. The file is
+						decrypted in your browser.
+					</DialogDescription>
+				</DialogHeader>
+
+				{details ? (
+					<div className="grid gap-4 py-2">
+						<div className="grid gap-1">
+							<p className="text-sm font-medium">{details.name}</p>
+							<p className="text-xs text-muted-foreground">
+								{details.environment === 'test' ? 'Test' : 'Production'} key ·{' '}
+								{details.event} {new Date(details.timestamp).toLocaleString()}
+							</p>
+						</div>
+
+						<div className="grid gap-2">
+							<p className="text-sm font-medium">API Key</p>
+							<code className="break-all rounded-md border bg-muted px-3 py-2 font-mono text-sm">
+								{details.key}
+							</code>
+							<CopyButton
+								value={details.key}
+								label="Copy Key"
+								variant="outline"
+							/>
+						</div>
+
+						<div className="rounded-lg border p-3">
+							{match?.apiKey ? (
+								<div className="flex flex-wrap items-center gap-2">
+									<ApiKeyStatusBadge apiKey={match.apiKey} />
+									<span className="text-sm">
+										{match.matchType === 'previous'
+											? 'Previous secret of'
+											: 'Current secret of'}{' '}
+										<Link
+											to={getKeyDetailPath(match.apiKey.id)}
+											className="font-medium underline-offset-4 hover:underline"
+											onClick={() => onOpenChange(false)}
+										>
+											{match.apiKey.name}
+										</Link>
+									</span>
+								</div>
+							) : (
+								<div className="flex items-center gap-2">
+									<Badge variant="outline">Unknown</Badge>
+									<span className="text-sm text-muted-foreground">
+										Not a current key in this workspace
+									</span>
+								</div>
+							)}
+						</div>
+					</div>
+				) : (
+					<form onSubmit={handleSubmit} className="grid gap-4 py-2">
+						<section
+							aria-label="Encrypted key file"
+							onDragOver={(e) => {
+								e.preventDefault();
+								setIsDragging(true);
+							}}
+							onDragLeave={() => setIsDragging(false)}
+							onDrop={handleDrop}
+							className={cn(
+								'flex flex-col items-center gap-2 rounded-lg border border-dashed p-6 text-center',
+								isDragging && 'border-primary bg-primary/5'
+							)}
+						>
+							<p className="text-sm text-muted-foreground">
+								{file ? file.name : 'Drop an encrypted key file here'}
+							</p>
+							<input
+								ref={fileInputRef}
+								type="file"
+								accept=".json,application/json"
+								className="hidden"
+								onChange={(e) => {
+									const selected = e.target.files?.[0];
+									if (selected) selectFile(selected);
+									e.target.value = '';
+								}}
+							/>
+							<Button
+								type="button"
+								variant="outline"
+								size="sm"
+								className="gap-2"
+								onClick={() => fileInputRef.current?.click()}
+							>
+								<FileUp className="h-4 w-4" />
+								Choose file
+							</Button>
+						</section>
+
+						<div className="grid gap-2">
+							<label
+								htmlFor="import-passphrase"
+								className="text-sm font-medium"
+							>
+								Passphrase
+							</label>
+							<Input
+								id="import-passphrase"
+								type="password"
+								autoComplete="off"
+								value={passphrase}
+								onChange={(e) => setPassphrase(e.target.value)}
+							/>
+						</div>
+
+						{error && (
+							<div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+								{error}
+							</div>
+						)}
+
+						<Button
+							type="submit"
+							disabled={!file || !passphrase || isDecrypting}
+						>
+							{isDecrypting ? 'Decrypting...' : 'Decrypt'}
+						</Button>
+					</form>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,80 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { reloadApiKeys } from '@/lib/apiKeyStore';
+import {
+	type ApiKeyConflictError,
+	subscribeToRejectedKeyWrites
+} from '@/lib/apiKeys';
+
+let currentConflict: ApiKeyConflictError | null = null;
+const listeners = new Set<() => void>();
+
+function setConflict(conflict: ApiKeyConflictError | null): void {
+	currentConflict = conflict;
+	for (const listener of listeners) listener();
+}
+
+function subscribe(listener: () => void): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/**
+ * Ask the user to reload after a write was rejected because the key changed
+ * elsewhere. Works from dialogs that have already closed, like toasts do.
+ */
+export function showKeyConflictDialog(error: ApiKeyConflictError): void {
+	setConflict(error);
+}
+
+/**
+ * "This key changed elsewhere — reload?" dialog. Mounted once, next to the
+ * Toaster. Also shown when the storage backend rejects a key write later.
+ */
+export function KeyConflictDialog() {
+	const conflict = useSyncExternalStore(subscribe, () => currentConflict);
+
+	// Writes to a remote store can be rejected after their dialog has closed
+	useEffect(() => subscribeToRejectedKeyWrites(setConflict), []);
+
+	const handleReload = () => {
+		void reloadApiKeys();
+		setConflict(null);
+	};
+
+	return (
+		<AlertDialog
+			open={conflict !== null}
+			onOpenChange={(open) => !open && setConflict(null)}
+		>
+			<AlertDialogContent>
+				<AlertDialogHeader>
+					<AlertDialogTitle>
+						{conflict?.keyId
+							? 'This key changed elsewhere'
+							: 'API keys changed elsewhere'}
+					</AlertDialogTitle>
+					<AlertDialogDescription>
+						{conflict?.message}. Your change was not saved. Reload to see the
+						latest version, then try again.
+					</AlertDialogDescription>
+				</AlertDialogHeader>
+				<AlertDialogFooter>
+					<AlertDialogCancel>Cancel</AlertDialogCancel>
+					<AlertDialogAction onClick={handleReload}>Reload</AlertDialogAction>
+				</AlertDialogFooter>
+			</AlertDialogContent>
+		</AlertDialog>
+	);
+}
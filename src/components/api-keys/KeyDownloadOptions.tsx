@@ -0,0 +1,108 @@
+import { ChevronDown, Download, Lock } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { downloadFile } from '@/lib/download';
+import {
+	DEFAULT_VARIABLE_NAME,
+	formatKeyDownload,
+	getVariableNameError,
+	KEY_DOWNLOAD_FORMATS,
+	type KeyDownloadFormat,
+	type RevealedKeyDetails
+} from '@/lib/keyDownloadFormats';
+import { EncryptKeyDialog } from './EncryptKeyDialog';
+
+interface KeyDownloadOptionsProps {
+	details: RevealedKeyDetails | null;
+}
+
+/**
+ * Variable name field and format menu for downloading a revealed key
+ */
+export function KeyDownloadOptions({ details }: KeyDownloadOptionsProps) {
+	const [variableName, setVariableName] = useState(DEFAULT_VARIABLE_NAME);
+	const [encryptDialogOpen, setEncryptDialogOpen] = useState(false);
+	const variableNameError = getVariableNameError(variableName);
+
+	const handleDownload = (format: KeyDownloadFormat) => {
+		if (!details) return;
+		try {
+			const file = formatKeyDownload(format, details, variableName);
+			downloadFile(file.filename, file.content, file.mimeType);
+		} catch (err) {
+			toast.error(
+				err instanceof Error ? err.message : 'Failed to download key'
+			);
+		}
+	};
+
+	return (
+		<div className="grid gap-2">
+			<label htmlFor="download-variable-name" className="text-sm font-medium">
+				Variable name
+			</label>
+			<div className="flex gap-2">
+				<Input
+					id="download-variable-name"
+					className="flex-1 font-mono"
+					value={variableName}
+					onChange={(e) => setVariableName(e.target.value.trim())}
+					aria-invalid={Boolean(variableNameError)}
+					aria-describedby="download-variable-name-hint"
+				/>
+				<DropdownMenu>
+					<DropdownMenuTrigger asChild>
+						<Button variant="outline" className="gap-2">
+							<Download className="h-4 w-4" />
+							Download as
+							<ChevronDown className="h-4 w-4" />
+						</Button>
+					</DropdownMenuTrigger>
+					<DropdownMenuContent align="end">
+						{(Object.keys(KEY_DOWNLOAD_FORMATS) as KeyDownloadFormat[]).map(
+							(format) => (
+								<DropdownMenuItem
+									key={format}
+									disabled={
+										KEY_DOWNLOAD_FORMATS[format].usesVariableName &&
+										Boolean(variableNameError)
+									}
+									onClick={() => handleDownload(format)}
+								>
+									{KEY_DOWNLOAD_FORMATS[format].label}
+								</DropdownMenuItem>
+							)
+						)}
+						<DropdownMenuSeparator />
+						<DropdownMenuItem onClick={() => setEncryptDialogOpen(true)}>
+							<Lock />
+							Encrypted file (passphrase)…
+						</DropdownMenuItem>
+					</DropdownMenuContent>
+				</DropdownMenu>
+			</div>
+			<p
+				id="download-variable-name-hint"
+				className={`text-xs ${variableNameError ? 'text-destructive' : 'text-muted-foreground'}`}
+			>
+				{variableNameError ??
+					'Used in the .env, shell, JSON and Kubernetes formats'}
+			</p>
+
+			<EncryptKeyDialog
+				open={encryptDialogOpen}
+				onOpenChange={setEncryptDialogOpen}
+				details={details}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,181 @@
+import { Filter, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+	DropdownMenu,
+	DropdownMenuCheckboxItem,
+	DropdownMenuContent,
+	DropdownMenuLabel,
+	DropdownMenuRadioGroup,
+	DropdownMenuRadioItem,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import type { ApiKeyStatus } from '@/lib/apiKeys';
+import {
+	EMPTY_KEY_FILTERS,
+	type KeyFilters,
+	STATUS_FILTER_LABELS
+} from '@/lib/keyFilters';
+
+interface KeyFiltersMenuProps {
+	value: KeyFilters;
+	onChange: (filters: KeyFilters) => void;
+	owners: string[];
+	tags: string[];
+}
+
+/**
+ * Dropdown for filtering keys by status, owner and tags
+ */
+export function KeyFiltersMenu({
+	value,
+	onChange,
+	owners,
+	tags
+}: KeyFiltersMenuProps) {
+	const activeCount =
+		(value.status ? 1 : 0) + (value.owner !== null ? 1 : 0) + value.tags.length;
+
+	const toggleTag = (tag: string) => {
+		onChange({
+			...value,
+			tags: value.tags.includes(tag)
+				? value.tags.filter((t) => t !== tag)
+				: [...value.tags, tag]
+		});
+	};
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button variant="outline" className="gap-2 whitespace-nowrap">
+					<Filter className="h-4 w-4" />
+					Filters
+					{activeCount > 0 && <Badge variant="secondary">{activeCount}</Badge>}
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end" className="max-h-[60vh] overflow-y-auto">
+				<DropdownMenuLabel>Status</DropdownMenuLabel>
+				<DropdownMenuRadioGroup
+					value={value.status ?? ''}
+					onValueChange={(status) =>
+						onChange({
+							...value,
+							status: (status || null) as ApiKeyStatus | null
+						})
+					}
+				>
+					<DropdownMenuRadioItem value="">Any status</DropdownMenuRadioItem>
+					{(Object.keys(STATUS_FILTER_LABELS) as ApiKeyStatus[]).map(
+						(status) => (
+							<DropdownMenuRadioItem key={status} value={status}>
+								{STATUS_FILTER_LABELS[status]}
+							</DropdownMenuRadioItem>
+						)
+					)}
+				</DropdownMenuRadioGroup>
+
+				{owners.length > 0 && (
+					<>
+						<DropdownMenuSeparator />
+						<DropdownMenuLabel>Owner</DropdownMenuLabel>
+						<DropdownMenuRadioGroup
+							value={value.owner ?? ''}
+							onValueChange={(owner) =>
+								onChange({ ...value, owner: owner || null })
+							}
+						>
+							<DropdownMenuRadioItem value="">Any owner</DropdownMenuRadioItem>
+							{owners.map((owner) => (
+								<DropdownMenuRadioItem key={owner} value={owner}>
+									{owner}
+								</DropdownMenuRadioItem>
+							))}
+						</DropdownMenuRadioGroup>
+					</>
+				)}
+
+				{tags.length > 0 && (
+					<>
+						<DropdownMenuSeparator />
+						<DropdownMenuLabel>Tags</DropdownMenuLabel>
+						{tags.map((tag) => (
+							<DropdownMenuCheckboxItem
+								key={tag}
+								checked={value.tags.includes(tag)}
+								onCheckedChange={() => toggleTag(tag)}
+								onSelect={(e) => e.preventDefault()}
+								className="font-mono"
+							>
+								{tag}
+							</DropdownMenuCheckboxItem>
+						))}
+					</>
+				)}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
+
+interface ActiveKeyFiltersProps {
+	value: KeyFilters;
+	onChange: (filters: KeyFilters) => void;
+}
+
+/**
+ * Removable chips for the filters currently applied.
+ * Renders nothing when no filter is set.
+ */
+export function ActiveKeyFilters({ value, onChange }: ActiveKeyFiltersProps) {
+	const chips = [
+		...(value.status
+			? [
+					{
+						label: `status: ${STATUS_FILTER_LABELS[value.status]}`,
+						remove: () => onChange({ ...value, status: null })
+					}
+				]
+			: []),
+		...(value.owner !== null
+			? [
+					{
+						label: `owner: ${value.owner}`,
+						remove: () => onChange({ ...value, owner: null })
+					}
+				]
+			: []),
+		...value.tags.map((tag) => ({
+			label: `tag: ${tag}`,
+			remove: () =>
+				onChange({ ...value, tags: value.tags.filter((t) => t !== tag) })
+		}))
+	];
+
+	if (chips.length === 0) return null;
+
+	return (
+		<div className="flex flex-wrap items-center gap-2">
+			{chips.map((chip) => (
+				<Badge key={chip.label} variant="outline" className="gap-1 pr-1">
+					{chip.label}
+					<button
+						type="button"
+						className="rounded-sm p-0.5 hover:bg-muted"
+						onClick={chip.remove}
+						aria-label={`Remove filter ${chip.label}`}
+					>
+						<X className="h-3 w-3" />
+					</button>
+				</Badge>
+			))}
+			<Button
+				variant="ghost"
+				size="sm"
+				onClick={() => onChange(EMPTY_KEY_FILTERS)}
+			>
+				Clear filters
+			</Button>
+		</div>
+	);
+}
@@ -0,0 +1,115 @@
+import { History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import {
+	type ApiKey,
+	getKeyVersions,
+	getLastRotatedAt,
+	type KeyVersion
+} from '@/lib/apiKeys';
+import { formatDate, formatRelativeTime } from '@/lib/dateUtils';
+
+interface KeyHistoryModalProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	apiKey: ApiKey | null;
+}
+
+/**
+ * Rotation history of a key: every secret it has had, newest first,
+ * with when and by whom each was created, rotated and revoked.
+ */
+export function KeyHistoryModal({
+	open,
+	onOpenChange,
+	apiKey
+}: KeyHistoryModalProps) {
+	if (!apiKey) return null;
+
+	const versions = getKeyVersions(apiKey);
+	const rotations = versions.length - 1;
+	const lastRotatedAt = getLastRotatedAt(apiKey);
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[540px]">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<History className="h-5 w-5" />
+						Key History
+					</DialogTitle>
+					<DialogDescription>
+						"{apiKey.name}" has been rotated {rotations} time
+						{rotations === 1 ? '' : 's'}
+						{lastRotatedAt
+							? `, most recently ${formatRelativeTime(lastRotatedAt)}.`
+							: '.'}
+					</DialogDescription>
+				</DialogHeader>
+
+				<ol className="space-y-3 py-2">
+					{[...versions].reverse().map((version, index) => (
+						<li key={version.version} className="rounded-lg border p-3">
+							<div className="mb-2 flex items-center gap-2">
+								<Badge variant="outline">v{version.version}</Badge>
+								{index === 0 && (
+									<Badge variant={apiKey.revoked ? 'secondary' : 'success'}>
+										Current
+									</Badge>
+								)}
+								<code className="ml-auto font-mono text-xs text-muted-foreground">
+									{version.maskedKey}
+								</code>
+							</div>
+							<dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+								<HistoryEvent
+									label="Created"
+									at={version.createdAt}
+									by={version.createdBy}
+								/>
+								<HistoryEvent
+									label="Rotated"
+									at={version.rotatedAt}
+									by={version.rotatedBy}
+								/>
+								<HistoryEvent
+									label="Revoked"
+									at={version.revokedAt}
+									by={version.revokedBy}
+								/>
+							</dl>
+						</li>
+					))}
+				</ol>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+interface HistoryEventProps {
+	label: string;
+	at: KeyVersion['rotatedAt'];
+	by: KeyVersion['rotatedBy'];
+}
+
+function HistoryEvent({ label, at, by }: HistoryEventProps) {
+	if (!at) return null;
+
+	return (
+		<>
+			<dt className="text-muted-foreground">{label}</dt>
+			<dd>
+				<time dateTime={at} title={at}>
+					{formatDate(at)}
+				</time>{' '}
+				<span className="text-muted-foreground">by {by ?? 'unknown'}</span>
+			</dd>
+		</>
+	);
+}
@@ -0,0 +1,43 @@
+import { formatRelativeTime } from '@/lib/dateUtils';
+import type { KeyUsageSummary } from '@/lib/usage';
+
+interface KeyLastUsedProps {
+	usage?: KeyUsageSummary;
+	/** Prefix rendered before the relative time, e.g. "Last used " */
+	label?: string;
+}
+
+/**
+ * Last-used timestamp with the endpoint and status of the most recent request
+ */
+export function KeyLastUsed({ usage, label = '' }: KeyLastUsedProps) {
+	if (!usage) {
+		return <span>{label}Never</span>;
+	}
+
+	const isSuccess = usage.lastStatusCode >= 200 && usage.lastStatusCode < 300;
+
+	return (
+		<div className="flex flex-col">
+			<time dateTime={usage.lastUsedAt} title={usage.lastUsedAt}>
+				{label}
+				{formatRelativeTime(usage.lastUsedAt)}
+			</time>
+			<span className="text-xs">
+				<code className="font-mono">
+					{usage.lastMethod} {usage.lastEndpoint}
+				</code>{' '}
+				·{' '}
+				<span
+					className={
+						isSuccess
+							? 'text-green-600 dark:text-green-400'
+							: 'text-red-600 dark:text-red-400'
+					}
+				>
+					{usage.lastStatusCode}
+				</span>
+			</span>
+		</div>
+	);
+}
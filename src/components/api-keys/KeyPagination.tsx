@@ -0,0 +1,94 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuLabel,
+	DropdownMenuRadioGroup,
+	DropdownMenuRadioItem,
+	DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { PAGE_SIZE_OPTIONS } from '@/lib/keyListQuery';
+
+interface KeyPaginationProps {
+	/** 1-based current page */
+	page: number;
+	pageCount: number;
+	pageSize: number;
+	/** Keys matching the current search and filters */
+	filteredCount: number;
+	/** All keys in the environment */
+	totalCount: number;
+	onPageChange: (page: number) => void;
+	onPageSizeChange: (pageSize: number) => void;
+}
+
+/**
+ * Footer for the keys list with range summary, page size and page navigation
+ */
+export function KeyPagination({
+	page,
+	pageCount,
+	pageSize,
+	filteredCount,
+	totalCount,
+	onPageChange,
+	onPageSizeChange
+}: KeyPaginationProps) {
+	const start = filteredCount === 0 ? 0 : (page - 1) * pageSize + 1;
+	const end = Math.min(page * pageSize, filteredCount);
+
+	return (
+		<div className="flex flex-wrap items-center justify-between gap-3">
+			<div className="text-sm text-muted-foreground">
+				Showing {start}–{end} of {filteredCount} keys
+				{filteredCount !== totalCount && ` (${totalCount} total)`}
+			</div>
+
+			<div className="flex items-center gap-2">
+				<DropdownMenu>
+					<DropdownMenuTrigger asChild>
+						<Button variant="ghost" size="sm" className="text-muted-foreground">
+							{pageSize} per page
+						</Button>
+					</DropdownMenuTrigger>
+					<DropdownMenuContent align="end">
+						<DropdownMenuLabel>Rows per page</DropdownMenuLabel>
+						<DropdownMenuRadioGroup
+							value={String(pageSize)}
+							onValueChange={(value) => onPageSizeChange(Number(value))}
+						>
+							{PAGE_SIZE_OPTIONS.map((size) => (
+								<DropdownMenuRadioItem key={size} value={String(size)}>
+									{size}
+								</DropdownMenuRadioItem>
+							))}
+						</DropdownMenuRadioGroup>
+					</DropdownMenuContent>
+				</DropdownMenu>
+
+				<span className="text-sm text-muted-foreground">
+					Page {page} of {pageCount}
+				</span>
+				<Button
+					variant="outline"
+					size="icon-sm"
+					aria-label="Previous page"
+					disabled={page <= 1}
+					onClick={() => onPageChange(page - 1)}
+				>
+					<ChevronLeft className="h-4 w-4" />
+				</Button>
+				<Button
+					variant="outline"
+					size="icon-sm"
+					aria-label="Next page"
+					disabled={page >= pageCount}
+					onClick={() => onPageChange(page + 1)}
+				>
+					<ChevronRight className="h-4 w-4" />
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,45 @@
+import { Globe, Network } from 'lucide-react';
+import type { ApiKey } from '@/lib/apiKeys';
+
+interface KeyRestrictionsProps {
+	apiKey: ApiKey;
+}
+
+/**
+ * IP and referrer-origin allowlists of a key, or "Unrestricted".
+ */
+export function KeyRestrictions({ apiKey }: KeyRestrictionsProps) {
+	const allowedIps = apiKey.allowedIps ?? [];
+	const allowedOrigins = apiKey.allowedOrigins ?? [];
+
+	if (allowedIps.length === 0 && allowedOrigins.length === 0) {
+		return (
+			<span className="text-xs text-muted-foreground">
+				Unrestricted: any IP and origin
+			</span>
+		);
+	}
+
+	return (
+		<div className="space-y-1 text-xs">
+			<div className="flex items-start gap-1.5">
+				<Network
+					className="mt-0.5 h-3 w-3 shrink-0 text-muted-foreground"
+					aria-label="Allowed IPs"
+				/>
+				<span className="font-mono break-all">
+					{allowedIps.length > 0 ? allowedIps.join(', ') : 'Any IP'}
+				</span>
+			</div>
+			<div className="flex items-start gap-1.5">
+				<Globe
+					className="mt-0.5 h-3 w-3 shrink-0 text-muted-foreground"
+					aria-label="Allowed origins"
+				/>
+				<span className="font-mono break-all">
+					{allowedOrigins.length > 0 ? allowedOrigins.join(', ') : 'Any origin'}
+				</span>
+			</div>
+		</div>
+	);
+}
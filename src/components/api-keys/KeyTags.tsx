@@ -0,0 +1,33 @@
+import { Badge } from '@/components/ui/badge';
+
+interface KeyTagsProps {
+	tags: string[];
+	/** Maximum tags to show before collapsing the rest into "+N" */
+	max?: number;
+}
+
+/**
+ * Compact list of key tags, e.g. "service:billing", "team:mobile".
+ * Renders nothing when the key has no tags.
+ */
+export function KeyTags({ tags, max }: KeyTagsProps) {
+	if (tags.length === 0) return null;
+
+	const visible = max === undefined ? tags : tags.slice(0, max);
+	const hidden = tags.slice(visible.length);
+
+	return (
+		<div className="flex flex-wrap gap-1">
+			{visible.map((tag) => (
+				<Badge key={tag} variant="secondary" className="font-mono font-normal">
+					{tag}
+				</Badge>
+			))}
+			{hidden.length > 0 && (
+				<Badge variant="outline" title={hidden.join(', ')}>
+					+{hidden.length}
+				</Badge>
+			)}
+		</div>
+	);
+}
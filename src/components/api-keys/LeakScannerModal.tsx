@@ -0,0 +1,255 @@
+import { Ban, FileUp, RefreshCw, ShieldAlert } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import { useApiKeys } from '@/hooks/useApiKeys';
+import type { ApiKey } from '@/lib/apiKeys';
+import {
+	type LeakedKey,
+	MAX_SCAN_FILE_SIZE,
+	scanForLeakedKeys
+} from '@/lib/leakScanner';
+import { cn } from '@/lib/utils';
+import { ApiKeyStatusBadge } from './ApiKeyStatusBadge';
+import { RegenerateKeyModal } from './RegenerateKeyModal';
+import { RevokeKeyDialog } from './RevokeKeyDialog';
+
+interface LeakScannerModalProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+function describeMatch(result: LeakedKey): string {
+	if (!result.apiKey) {
+		return result.format.valid
+			? 'Not a current key in this workspace. It may have been rotated out or deleted.'
+			: 'Not a valid key. It is probably mistyped or truncated.';
+	}
+	const environment =
+		result.apiKey.environment === 'test' ? 'Test' : 'Production';
+	return result.matchType === 'previous'
+		? `${environment} · previous secret, still valid during its rotation grace period`
+		: `${environment} · current secret`;
+}
+
+/**
+ * Scan pasted text or a dropped file for API keys, identify which stored key
+ * each one is, and revoke or regenerate live ones. Scanned text never leaves
+ * the browser and found secrets are only shown masked.
+ */
+export function LeakScannerModal({
+	open,
+	onOpenChange
+}: LeakScannerModalProps) {
+	const { keys } = useApiKeys();
+	const [text, setText] = useState('');
+	const [results, setResults] = useState<LeakedKey[] | null>(null);
+	const [isScanning, setIsScanning] = useState(false);
+	const [isDragging, setIsDragging] = useState(false);
+	const [keyToRevoke, setKeyToRevoke] = useState<ApiKey | null>(null);
+	const [keyToRegenerate, setKeyToRegenerate] = useState<ApiKey | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	useEffect(() => {
+		if (!open) {
+			setText('');
+			setResults(null);
+		}
+	}, [open]);
+
+	const scan = async (input: string) => {
+		setIsScanning(true);
+		try {
+			setResults(await scanForLeakedKeys(input, keys));
+		} catch {
+			toast.error('Failed to scan for keys');
+		} finally {
+			setIsScanning(false);
+		}
+	};
+
+	const loadFile = async (file: File) => {
+		if (file.size > MAX_SCAN_FILE_SIZE) {
+			toast.error('File is too large to scan (max 5 MB)');
+			return;
+		}
+		const content = await file.text();
+		setText(content);
+		await scan(content);
+	};
+
+	const handleDrop = (e: React.DragEvent) => {
+		e.preventDefault();
+		setIsDragging(false);
+		const file = e.dataTransfer.files[0];
+		if (file) void loadFile(file);
+	};
+
+	// Rescan when keys change, e.g. after revoking one, so statuses stay current
+	// biome-ignore lint/correctness/useExhaustiveDependencies: rescan only when the keys change
+	useEffect(() => {
+		if (results) void scan(text);
+	}, [keys]);
+
+	const liveCount = results?.filter((result) => result.live).length ?? 0;
+
+	return (
+		<>
+			<Dialog open={open} onOpenChange={onOpenChange}>
+				<DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[640px]">
+					<DialogHeader>
+						<DialogTitle className="flex items-center gap-2">
+							<ShieldAlert className="h-5 w-5" />
+							Scan for Leaked Keys
+						</DialogTitle>
+						<DialogDescription>
+							Paste logs, a config file or a chat message, or drop a file. Text
+							is scanned in your browser and is not stored.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="grid gap-3 py-2">
+						<textarea
+							aria-label="Text to scan"
+							value={text}
+							onChange={(e) => setText(e.target.value)}
+							onDragOver={(e) => {
+								e.preventDefault();
+								setIsDragging(true);
+							}}
+							onDragLeave={() => setIsDragging(false)}
+							onDrop={handleDrop}
+							rows={8}
+							spellCheck={false}
+							placeholder="Paste text here or drop a file…"
+							className={cn(
+								'border-input dark:bg-surface-dark w-full rounded-md border bg-transparent px-3 py-2 font-mono text-xs shadow-xs outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50',
+								isDragging && 'border-primary ring-[3px] ring-primary/30'
+							)}
+						/>
+						<div className="flex justify-between gap-2">
+							<input
+								ref={fileInputRef}
+								type="file"
+								className="hidden"
+								onChange={(e) => {
+									const file = e.target.files?.[0];
+									if (file) void loadFile(file);
+									e.target.value = '';
+								}}
+							/>
+							<Button
+								variant="outline"
+								className="gap-2"
+								onClick={() => fileInputRef.current?.click()}
+							>
+								<FileUp className="h-4 w-4" />
+								Choose file
+							</Button>
+							<Button
+								onClick={() => scan(text)}
+								disabled={!text.trim() || isScanning}
+							>
+								{isScanning ? 'Scanning...' : 'Scan'}
+							</Button>
+						</div>
+					</div>
+
+					{results &&
+						(results.length === 0 ? (
+							<p className="rounded-lg border p-4 text-center text-sm text-muted-foreground">
+								No API keys found
+							</p>
+						) : (
+							<div className="grid gap-3">
+								<p className="text-sm font-medium">
+									Found {results.length} key{results.length === 1 ? '' : 's'}
+									{liveCount > 0 && (
+										<span className="text-destructive">
+											{' '}
+											· {liveCount} live
+										</span>
+									)}
+								</p>
+								<ul className="space-y-3">
+									{results.map((result) => (
+										<li
+											key={`${result.maskedKey}-${result.lines[0]}`}
+											className={cn(
+												'rounded-lg border p-3',
+												result.live && 'border-destructive/50 bg-destructive/5'
+											)}
+										>
+											<div className="flex flex-wrap items-center gap-2">
+												<code className="font-mono text-xs">
+													{result.maskedKey}
+												</code>
+												{result.apiKey ? (
+													<ApiKeyStatusBadge apiKey={result.apiKey} />
+												) : (
+													<Badge variant="outline">Unknown</Badge>
+												)}
+												<span className="ml-auto text-xs text-muted-foreground">
+													Line {result.lines.join(', ')}
+												</span>
+											</div>
+											<p className="mt-1 text-sm font-medium">
+												{result.apiKey?.name ?? 'No matching key'}
+											</p>
+											<p className="text-xs text-muted-foreground">
+												{describeMatch(result)}
+											</p>
+											{result.live && result.apiKey && (
+												<div className="mt-3 flex gap-2">
+													<Button
+														size="sm"
+														variant="destructive"
+														className="gap-1"
+														onClick={() => setKeyToRevoke(result.apiKey)}
+													>
+														<Ban className="h-3.5 w-3.5" />
+														Revoke
+													</Button>
+													<Button
+														size="sm"
+														variant="outline"
+														className="gap-1"
+														onClick={() => setKeyToRegenerate(result.apiKey)}
+													>
+														<RefreshCw className="h-3.5 w-3.5" />
+														Regenerate
+													</Button>
+												</div>
+											)}
+										</li>
+									))}
+								</ul>
+							</div>
+						))}
+				</DialogContent>
+			</Dialog>
+
+			{keyToRevoke && (
+				<RevokeKeyDialog
+					open
+					onOpenChange={(isOpen) => !isOpen && setKeyToRevoke(null)}
+					apiKey={keyToRevoke}
+				/>
+			)}
+
+			<RegenerateKeyModal
+				open={keyToRegenerate !== null}
+				onOpenChange={(isOpen) => !isOpen && setKeyToRegenerate(null)}
+				apiKey={keyToRegenerate}
+			/>
+		</>
+	);
+}
@@ -0,0 +1,38 @@
+import { History } from 'lucide-react';
+import {
+	type ApiKey,
+	getActivePreviousSecrets,
+	getMaskedKey
+} from '@/lib/apiKeys';
+import { formatDate, formatTimeUntil } from '@/lib/dateUtils';
+
+interface PreviousSecretsProps {
+	apiKey: ApiKey;
+}
+
+/**
+ * Rotated-out secrets that are still valid during their grace period.
+ * Renders nothing when the key has no secrets in a grace period.
+ */
+export function PreviousSecrets({ apiKey }: PreviousSecretsProps) {
+	const secrets = getActivePreviousSecrets(apiKey);
+	if (secrets.length === 0) return null;
+
+	return (
+		<ul className="mt-1 space-y-0.5">
+			{secrets.map((secret) => (
+				<li
+					key={secret.keyHash}
+					className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400"
+					title={`Rotated ${formatDate(secret.rotatedAt)}, stops working ${formatDate(secret.expiresAt)}`}
+				>
+					<History className="h-3 w-3" aria-hidden="true" />
+					<code className="font-mono">
+						{getMaskedKey(apiKey, secret.last4)}
+					</code>
+					<span>old key, expires {formatTimeUntil(secret.expiresAt)}</span>
+				</li>
+			))}
+		</ul>
+	);
+}
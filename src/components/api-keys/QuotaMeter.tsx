@@ -0,0 +1,75 @@
+import { AlertTriangle } from 'lucide-react';
+import { getUsageRatio, type KeyQuotaUsage } from '@/lib/quotas';
+import { cn } from '@/lib/utils';
+
+interface QuotaMeterProps {
+	quota?: KeyQuotaUsage;
+	/** Only show the monthly bar, for table rows */
+	compact?: boolean;
+}
+
+const numberFormat = new Intl.NumberFormat('en-US');
+
+/**
+ * Monthly quota bar and peak requests per minute against the rate limit.
+ * Turns amber when a limit is nearly reached and red once the quota is used up.
+ */
+export function QuotaMeter({ quota, compact = false }: QuotaMeterProps) {
+	if (!quota || quota.state === 'unlimited') {
+		return <span className="text-xs text-muted-foreground">No limits</span>;
+	}
+
+	const monthlyRatio = getUsageRatio(quota.monthlyUsed, quota.monthlyLimit);
+	const barColor =
+		quota.state === 'exceeded'
+			? 'bg-red-500'
+			: quota.state === 'near'
+				? 'bg-amber-500'
+				: 'bg-primary';
+
+	return (
+		<div className="flex flex-col gap-1 text-xs">
+			{quota.monthlyLimit !== null && (
+				<>
+					<div
+						className="h-1.5 w-full min-w-[80px] overflow-hidden rounded-full bg-muted"
+						role="meter"
+						aria-label="Monthly quota used"
+						aria-valuemin={0}
+						aria-valuemax={quota.monthlyLimit}
+						aria-valuenow={Math.min(quota.monthlyUsed, quota.monthlyLimit)}
+					>
+						<div
+							className={cn('h-full rounded-full', barColor)}
+							style={{ width: `${monthlyRatio * 100}%` }}
+						/>
+					</div>
+					<span className="text-muted-foreground">
+						{numberFormat.format(quota.monthlyUsed)} /{' '}
+						{numberFormat.format(quota.monthlyLimit)}
+						{compact ? '' : ' requests this month'}
+					</span>
+				</>
+			)}
+			{!compact && quota.rateLimitPerMinute !== null && (
+				<span className="text-muted-foreground">
+					Peak {quota.peakRequestsPerMinute} / {quota.rateLimitPerMinute}{' '}
+					requests per minute
+				</span>
+			)}
+			{(quota.state === 'near' || quota.state === 'exceeded') && (
+				<span
+					className={cn(
+						'flex items-center gap-1 font-medium',
+						quota.state === 'exceeded'
+							? 'text-red-600 dark:text-red-400'
+							: 'text-amber-600 dark:text-amber-400'
+					)}
+				>
+					<AlertTriangle className="h-3 w-3" />
+					{quota.state === 'exceeded' ? 'Quota exceeded' : 'Near limit'}
+				</span>
+			)}
+		</div>
+	);
+}
@@ -1,10 +1,4 @@
-import {
-	AlertTriangle,
-	Check,
-	Download,
-	FlaskConical,
-	Rocket
-} from 'lucide-react';
+import { AlertTriangle, Check, FlaskConical, Rocket } from 'lucide-react';
 import { useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -17,8 +11,24 @@ import {
 	DialogTitle
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
-import { type ApiKey, regenerateApiKey } from '@/lib/apiKeys';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+	type ApiKey,
+	ApiKeyConflictError,
+	GRACE_PERIOD_OPTIONS,
+	isApiKeyActive,
+	regenerateApiKey
+} from '@/lib/apiKeys';
+import { formatDate, formatTimeUntil } from '@/lib/dateUtils';
+import type { RevealedKeyDetails } from '@/lib/keyDownloadFormats';
+import { cn } from '@/lib/utils';
 import { CopyButton } from './CopyButton';
+import { showKeyConflictDialog } from './KeyConflictDialog';
+import { KeyDownloadOptions } from './KeyDownloadOptions';
+
+type RotationMode =
+	| 'immediate'
+	| (typeof GRACE_PERIOD_OPTIONS)[number]['value'];
 
 interface RegenerateKeyModalProps {
 	open: boolean;
@@ -33,35 +43,53 @@ export function RegenerateKeyModal({
 	apiKey,
 	onKeyRegenerated
 }: RegenerateKeyModalProps) {
+	const { user } = useAuth();
 	const [step, setStep] = useState<'confirm' | 'reveal'>('confirm');
-	const [regeneratedKey, setRegeneratedKey] = useState<{
-		name: string;
-		key: string;
-		environment: 'test' | 'production';
-	} | null>(null);
+	const [rotationMode, setRotationMode] = useState<RotationMode>('immediate');
+	const [regeneratedKey, setRegeneratedKey] =
+		useState<RevealedKeyDetails | null>(null);
 	const [isFlashing, setIsFlashing] = useState(false);
 	const [error, setError] = useState('');
 	const [isSubmitting, setIsSubmitting] = useState(false);
 
-	const handleConfirm = () => {
+	const handleConfirm = async () => {
 		if (!apiKey) return;
 
 		setError('');
 		setIsSubmitting(true);
 
 		try {
-			const newKey = regenerateApiKey(apiKey.id);
-			if (!newKey) {
+			const gracePeriodMs =
+				GRACE_PERIOD_OPTIONS.find((option) => option.value === rotationMode)
+					?.ms ?? 0;
+			const result = await regenerateApiKey(apiKey.id, {
+				gracePeriodMs,
+				actor: user?.email ?? null,
+				expectedRevision: apiKey.revision
+			});
+			if (!result) {
 				throw new Error('Failed to regenerate key');
 			}
 
+			const { apiKey: newKey, secret } = result;
+			const rotatedSecret = newKey.previousSecrets?.find(
+				(previous) => previous.keyHash === apiKey.keyHash
+			);
 			setRegeneratedKey({
 				name: newKey.name,
-				key: newKey.key,
-				environment: newKey.environment
+				key: secret,
+				environment: newKey.environment,
+				event: 'regenerated',
+				timestamp: new Date().toISOString(),
+				oldKeyExpiresAt: rotatedSecret?.expiresAt ?? null
 			});
 			setStep('reveal');
 		} catch (err) {
+			if (err instanceof ApiKeyConflictError) {
+				handleClose();
+				showKeyConflictDialog(err);
+				return;
+			}
 			setError(err instanceof Error ? err.message : 'Failed to regenerate key');
 		} finally {
 			setIsSubmitting(false);
@@ -73,33 +101,9 @@ export function RegenerateKeyModal({
 		setTimeout(() => setIsFlashing(false), 500);
 	};
 
-	const handleDownload = () => {
-		if (!regeneratedKey) return;
-
-		const content = `API Key: ${regeneratedKey.name}
-Environment: ${regeneratedKey.environment}
-Key: ${regeneratedKey.key}
-Regenerated: ${new Date().toISOString()}
-
-⚠️ SECURITY WARNING ⚠️
-Keep this key secure and never share it publicly.
-You won't be able to view this key again after closing this window.
-The old key has been invalidated.
-`;
-
-		const blob = new Blob([content], { type: 'text/plain' });
-		const url = URL.createObjectURL(blob);
-		const a = document.createElement('a');
-		a.href = url;
-		a.download = `${regeneratedKey.name.replace(/\s+/g, '_')}_regenerated_${Date.now()}.txt`;
-		document.body.appendChild(a);
-		a.click();
-		document.body.removeChild(a);
-		URL.revokeObjectURL(url);
-	};
-
 	const handleClose = () => {
 		setStep('confirm');
+		setRotationMode('immediate');
 		setRegeneratedKey(null);
 		setIsFlashing(false);
 		setError('');
@@ -111,6 +115,8 @@ The old key has been invalidated.
 
 	if (!apiKey) return null;
 
+	const isActive = isApiKeyActive(apiKey);
+
 	return (
 		<Dialog open={open} onOpenChange={handleClose}>
 			<DialogContent className="sm:max-w-[540px]">
@@ -133,13 +139,51 @@ The old key has been invalidated.
 							</DialogTitle>
 							<DialogDescription>
 								This will generate a new key for "{apiKey.name}".{' '}
-								{apiKey.revoked
+								{!isActive
 									? 'The key will be reactivated with the new value.'
-									: 'The old key will be immediately invalidated.'}
+									: rotationMode === 'immediate'
+										? 'The old key will be immediately invalidated.'
+										: 'The old key will keep working during the grace period.'}
 							</DialogDescription>
 						</DialogHeader>
 
 						<div className="grid gap-4 py-4">
+							{isActive && (
+								<div className="grid gap-2">
+									<span className="text-sm font-medium">Rotation</span>
+									<div
+										className="flex flex-wrap items-center gap-1 rounded-lg border border-border-dark bg-surface-dark p-1"
+										role="radiogroup"
+										aria-label="Rotation"
+									>
+										{[
+											{ value: 'immediate' as const, label: 'Immediately' },
+											...GRACE_PERIOD_OPTIONS
+										].map((option) => (
+											<button
+												key={option.value}
+												type="button"
+												role="radio"
+												aria-checked={rotationMode === option.value}
+												disabled={isSubmitting}
+												onClick={() => setRotationMode(option.value)}
+												className={cn(
+													'rounded-md px-3 py-1 text-xs font-medium transition-colors',
+													rotationMode === option.value
+														? 'bg-primary text-primary-foreground'
+														: 'text-muted-foreground hover:text-foreground'
+												)}
+											>
+												{option.label}
+											</button>
+										))}
+									</div>
+									<p className="text-xs text-muted-foreground">
+										How long the old key keeps working alongside the new one.
+									</p>
+								</div>
+							)}
+
 							<div className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-4">
 								<div className="flex gap-3">
 									<AlertTriangle className="h-5 w-5 flex-shrink-0 text-amber-500" />
@@ -148,7 +192,7 @@ The old key has been invalidated.
 											Important: This action cannot be undone
 										</p>
 										<ul className="space-y-1 text-xs text-amber-600/90 dark:text-amber-400/90">
-											{apiKey.revoked ? (
+											{!isActive ? (
 												<>
 													<li>
 														• This will reactivate the key with a new value
@@ -159,6 +203,23 @@ The old key has been invalidated.
 														use this key
 													</li>
 												</>
+											) : rotationMode !== 'immediate' ? (
+												<>
+													<li>
+														• The current key keeps working for{' '}
+														{
+															GRACE_PERIOD_OPTIONS.find(
+																(option) => option.value === rotationMode
+															)?.label
+														}
+														, then expires automatically
+													</li>
+													<li>
+														• Update your applications to the new key before
+														then
+													</li>
+													<li>• The new key will be shown only once</li>
+												</>
 											) : (
 												<>
 													<li>
@@ -205,8 +266,10 @@ The old key has been invalidated.
 								API Key Regenerated
 							</DialogTitle>
 							<DialogDescription>
-								Save this key now. You won't be able to view it again. The old
-								key has been invalidated.
+								Save this key now. You won't be able to view it again.{' '}
+								{regeneratedKey?.oldKeyExpiresAt
+									? `The old key stays valid until ${formatDate(regeneratedKey.oldKeyExpiresAt)} (${formatTimeUntil(regeneratedKey.oldKeyExpiresAt)}).`
+									: 'The old key has been invalidated.'}
 							</DialogDescription>
 						</DialogHeader>
 
@@ -229,7 +292,11 @@ The old key has been invalidated.
 												• Never share your API key publicly or commit it to
 												version control
 											</li>
-											<li>• The old key is now invalid</li>
+											<li>
+												{regeneratedKey?.oldKeyExpiresAt
+													? `• The old key expires ${formatTimeUntil(regeneratedKey.oldKeyExpiresAt)}`
+													: '• The old key is now invalid'}
+											</li>
 										</ul>
 									</div>
 								</div>
@@ -256,16 +323,10 @@ The old key has been invalidated.
 									className="flex-1"
 									onCopySuccess={handleCopySuccess}
 								/>
-								<Button
-									variant="outline"
-									className="flex-1 gap-2"
-									onClick={handleDownload}
-								>
-									<Download className="h-4 w-4" />
-									Download
-								</Button>
 							</div>
 
+							<KeyDownloadOptions details={regeneratedKey} />
+
 							<div className="grid gap-2">
 								<label htmlFor="notes" className="text-sm font-medium">
 									Where did you save this key? (optional)
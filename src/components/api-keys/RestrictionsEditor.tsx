@@ -0,0 +1,76 @@
+/**
+ * Raw textarea contents for the IP and origin allowlists.
+ * Parsed with parseAllowlistInput on submit.
+ */
+export type RestrictionsDraft = {
+	allowedIps: string;
+	allowedOrigins: string;
+};
+
+export const EMPTY_RESTRICTIONS_DRAFT: RestrictionsDraft = {
+	allowedIps: '',
+	allowedOrigins: ''
+};
+
+interface RestrictionsEditorProps {
+	value: RestrictionsDraft;
+	onChange: (draft: RestrictionsDraft) => void;
+	disabled?: boolean;
+}
+
+const TEXTAREA_CLASS =
+	'border-input dark:bg-surface-dark w-full rounded-md border bg-transparent px-3 py-2 font-mono text-sm shadow-xs outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 disabled:opacity-50';
+
+/**
+ * IP (CIDR) and referrer-origin allowlist inputs, one entry per line.
+ * Leaving a list empty places no restriction.
+ */
+export function RestrictionsEditor({
+	value,
+	onChange,
+	disabled = false
+}: RestrictionsEditorProps) {
+	return (
+		<div className="grid gap-3">
+			<div className="grid gap-2">
+				<label htmlFor="allowed-ips" className="text-sm font-medium">
+					Allowed IP addresses
+				</label>
+				<textarea
+					id="allowed-ips"
+					rows={2}
+					placeholder={'203.0.113.0/24\n2001:db8::/32'}
+					className={TEXTAREA_CLASS}
+					value={value.allowedIps}
+					onChange={(e) => onChange({ ...value, allowedIps: e.target.value })}
+					disabled={disabled}
+				/>
+				<p className="text-xs text-muted-foreground">
+					IPv4/IPv6 addresses or CIDR ranges, one per line. Leave empty to allow
+					any IP.
+				</p>
+			</div>
+
+			<div className="grid gap-2">
+				<label htmlFor="allowed-origins" className="text-sm font-medium">
+					Allowed referrer origins
+				</label>
+				<textarea
+					id="allowed-origins"
+					rows={2}
+					placeholder={'https://app.example.com\nhttps://*.example.com'}
+					className={TEXTAREA_CLASS}
+					value={value.allowedOrigins}
+					onChange={(e) =>
+						onChange({ ...value, allowedOrigins: e.target.value })
+					}
+					disabled={disabled}
+				/>
+				<p className="text-xs text-muted-foreground">
+					Origins that may use this key, one per line. Use *. for subdomains.
+					Leave empty to allow any origin.
+				</p>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,107 @@
+import { toast } from 'sonner';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+	type ApiKey,
+	ApiKeyConflictError,
+	revokeApiKey,
+	undoRevokeApiKey
+} from '@/lib/apiKeys';
+import { showKeyConflictDialog } from './KeyConflictDialog';
+
+interface RevokeKeyDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	apiKey: ApiKey;
+}
+
+/**
+ * Confirmation dialog for revoking a key, with an undo action on the resulting toast
+ */
+export function RevokeKeyDialog({
+	open,
+	onOpenChange,
+	apiKey
+}: RevokeKeyDialogProps) {
+	const { user } = useAuth();
+
+	const handleRevokeConfirm = () => {
+		let success: boolean;
+		try {
+			success = revokeApiKey(apiKey.id, user?.email ?? null, apiKey.revision);
+		} catch (err) {
+			if (err instanceof ApiKeyConflictError) {
+				showKeyConflictDialog(err);
+			} else {
+				toast.error(
+					err instanceof Error ? err.message : 'Failed to revoke API key'
+				);
+			}
+			onOpenChange(false);
+			return;
+		}
+
+		if (success) {
+			toast.success(`API key "${apiKey.name}" has been revoked`, {
+				action: {
+					label: 'Undo',
+					onClick: () => {
+						try {
+							if (undoRevokeApiKey(apiKey)) {
+								toast.success(`API key "${apiKey.name}" is active again`);
+							} else {
+								toast.error('The key has changed since it was revoked');
+							}
+						} catch (err) {
+							if (err instanceof ApiKeyConflictError) {
+								showKeyConflictDialog(err);
+							} else {
+								toast.error(
+									err instanceof Error
+										? err.message
+										: 'Failed to reactivate API key'
+								);
+							}
+						}
+					}
+				}
+			});
+		} else {
+			toast.error('Failed to revoke API key');
+		}
+		onOpenChange(false);
+	};
+
+	return (
+		<AlertDialog open={open} onOpenChange={onOpenChange}>
+			<AlertDialogContent>
+				<AlertDialogHeader>
+					<AlertDialogTitle>Revoke API Key?</AlertDialogTitle>
+					<AlertDialogDescription>
+						Are you sure you want to revoke "{apiKey.name}"? This action will
+						immediately invalidate the key and prevent it from making any
+						further API requests.
+					</AlertDialogDescription>
+				</AlertDialogHeader>
+				<AlertDialogFooter>
+					<AlertDialogCancel>Cancel</AlertDialogCancel>
+					<AlertDialogAction
+						onClick={handleRevokeConfirm}
+						className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+					>
+						Revoke Key
+					</AlertDialogAction>
+				</AlertDialogFooter>
+			</AlertDialogContent>
+		</AlertDialog>
+	);
+}
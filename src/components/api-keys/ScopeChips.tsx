@@ -0,0 +1,54 @@
+import { Badge } from '@/components/ui/badge';
+import { API_RESOURCES, type ApiKeyScope, formatScope } from '@/lib/scopes';
+
+interface ScopeChipsProps {
+	scopes: ApiKeyScope[];
+	/** Maximum chips to show before collapsing the rest into "+N" */
+	max?: number;
+}
+
+/**
+ * Compact list of scope chips, e.g. "users:read", "payments:write".
+ */
+export function ScopeChips({ scopes, max }: ScopeChipsProps) {
+	if (scopes.length === 0) {
+		return <span className="text-xs text-muted-foreground">No scopes</span>;
+	}
+
+	const isFullAccess =
+		scopes.length === API_RESOURCES.length &&
+		scopes.every((scope) => scope.access === 'write');
+
+	if (isFullAccess) {
+		return (
+			<Badge variant="warning" title="Write access to every resource">
+				Full access
+			</Badge>
+		);
+	}
+
+	const visible = max === undefined ? scopes : scopes.slice(0, max);
+	const hidden = scopes.slice(visible.length);
+
+	return (
+		<div className="flex flex-wrap gap-1">
+			{visible.map((scope) => (
+				<Badge
+					key={scope.resource}
+					variant="outline"
+					className="font-mono font-normal"
+				>
+					{formatScope(scope)}
+				</Badge>
+			))}
+			{hidden.length > 0 && (
+				<Badge
+					variant="secondary"
+					title={hidden.map((scope) => formatScope(scope)).join(', ')}
+				>
+					+{hidden.length}
+				</Badge>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,127 @@
+import {
+	API_RESOURCES,
+	type ApiKeyScope,
+	type ApiResource,
+	type ScopeAccess
+} from '@/lib/scopes';
+import { cn } from '@/lib/utils';
+
+type AccessOption = ScopeAccess | 'none';
+
+const ACCESS_OPTIONS: { value: AccessOption; label: string }[] = [
+	{ value: 'none', label: 'None' },
+	{ value: 'read', label: 'Read' },
+	{ value: 'write', label: 'Write' }
+];
+
+interface ScopeSelectorProps {
+	value: ApiKeyScope[];
+	onChange: (scopes: ApiKeyScope[]) => void;
+	disabled?: boolean;
+}
+
+/**
+ * Grid of resources with a None / Read / Write choice per resource.
+ * Write access implies read access.
+ */
+export function ScopeSelector({
+	value,
+	onChange,
+	disabled = false
+}: ScopeSelectorProps) {
+	const getAccess = (resource: ApiResource): AccessOption =>
+		value.find((scope) => scope.resource === resource)?.access ?? 'none';
+
+	const setAccess = (resource: ApiResource, access: AccessOption) => {
+		const others = value.filter((scope) => scope.resource !== resource);
+		const next = access === 'none' ? others : [...others, { resource, access }];
+		onChange(
+			API_RESOURCES.flatMap((r) => next.filter((scope) => scope.resource === r))
+		);
+	};
+
+	const setAll = (access: AccessOption) => {
+		onChange(
+			access === 'none'
+				? []
+				: API_RESOURCES.map((resource) => ({ resource, access }))
+		);
+	};
+
+	return (
+		<div className="grid gap-2">
+			<div className="flex items-center justify-between">
+				<span className="text-sm font-medium">
+					Scopes <span className="text-destructive">*</span>
+				</span>
+				<div className="flex gap-2 text-xs">
+					<button
+						type="button"
+						className="text-muted-foreground hover:text-foreground"
+						onClick={() => setAll('read')}
+						disabled={disabled}
+					>
+						Read all
+					</button>
+					<button
+						type="button"
+						className="text-muted-foreground hover:text-foreground"
+						onClick={() => setAll('write')}
+						disabled={disabled}
+					>
+						Write all
+					</button>
+					<button
+						type="button"
+						className="text-muted-foreground hover:text-foreground"
+						onClick={() => setAll('none')}
+						disabled={disabled}
+					>
+						Clear
+					</button>
+				</div>
+			</div>
+
+			<div className="divide-y divide-border-dark rounded-lg border border-border-dark">
+				{API_RESOURCES.map((resource) => (
+					<div
+						key={resource}
+						className="flex items-center justify-between px-3 py-2"
+					>
+						<code className="font-mono text-sm">{resource}</code>
+						<div
+							className="flex items-center gap-1 rounded-md bg-muted/50 p-0.5"
+							role="radiogroup"
+							aria-label={`Access to ${resource}`}
+						>
+							{ACCESS_OPTIONS.map((option) => {
+								const selected = getAccess(resource) === option.value;
+								return (
+									<button
+										key={option.value}
+										type="button"
+										role="radio"
+										aria-checked={selected}
+										disabled={disabled}
+										onClick={() => setAccess(resource, option.value)}
+										className={cn(
+											'rounded px-2 py-0.5 text-xs font-medium transition-colors',
+											selected
+												? 'bg-primary text-primary-foreground'
+												: 'text-muted-foreground hover:text-foreground'
+										)}
+									>
+										{option.label}
+									</button>
+								);
+							})}
+						</div>
+					</div>
+				))}
+			</div>
+			<p className="text-xs text-muted-foreground">
+				Grant only the access this integration needs. Write includes read.
+			</p>
+		</div>
+	);
+}
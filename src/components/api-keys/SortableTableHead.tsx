@@ -0,0 +1,54 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import type { ReactNode } from 'react';
+import { TableHead } from '@/components/ui/table';
+import type { KeySort, KeySortField } from '@/lib/keyListQuery';
+
+interface SortableTableHeadProps {
+	field: KeySortField;
+	sort: KeySort;
+	onSort: (field: KeySortField) => void;
+	className?: string;
+	children: ReactNode;
+}
+
+/**
+ * Table column header that sorts by its field when clicked
+ */
+export function SortableTableHead({
+	field,
+	sort,
+	onSort,
+	className,
+	children
+}: SortableTableHeadProps) {
+	const isSorted = sort.field === field;
+	const Icon = !isSorted
+		? ArrowUpDown
+		: sort.direction === 'asc'
+			? ArrowUp
+			: ArrowDown;
+
+	return (
+		<TableHead
+			className={className}
+			aria-sort={
+				isSorted
+					? sort.direction === 'asc'
+						? 'ascending'
+						: 'descending'
+					: undefined
+			}
+		>
+			<button
+				type="button"
+				className="-ml-1 inline-flex items-center gap-1 rounded px-1 hover:text-foreground"
+				onClick={() => onSort(field)}
+			>
+				{children}
+				<Icon
+					className={`h-3.5 w-3.5 ${isSorted ? '' : 'text-muted-foreground'}`}
+				/>
+			</button>
+		</TableHead>
+	);
+}
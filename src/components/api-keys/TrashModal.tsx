@@ -0,0 +1,192 @@
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle
+} from '@/components/ui/dialog';
+import { useTrashedApiKeys } from '@/hooks/useTrashedApiKeys';
+import {
+	getMaskedKey,
+	getTrashPurgeDate,
+	purgeApiKeys,
+	restoreApiKey,
+	TRASH_RETENTION_DAYS,
+	type TrashedApiKey
+} from '@/lib/apiKeys';
+import { formatRelativeTime } from '@/lib/dateUtils';
+
+interface TrashModalProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	environment: 'test' | 'production';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deleted keys of the current environment, with restore and permanent delete
+ */
+export function TrashModal({
+	open,
+	onOpenChange,
+	environment
+}: TrashModalProps) {
+	const trash = useTrashedApiKeys(environment);
+	/** Entries awaiting confirmation before they are deleted for good */
+	const [pendingPurge, setPendingPurge] = useState<TrashedApiKey[] | null>(
+		null
+	);
+
+	const handleRestore = (entry: TrashedApiKey) => {
+		try {
+			if (restoreApiKey(entry.apiKey.id)) {
+				toast.success(`API key "${entry.apiKey.name}" has been restored`);
+			} else {
+				toast.error('Failed to restore API key');
+			}
+		} catch (err) {
+			toast.error(
+				err instanceof Error ? err.message : 'Failed to restore API key'
+			);
+		}
+	};
+
+	const handlePurgeConfirm = () => {
+		if (!pendingPurge) return;
+		const count = purgeApiKeys(pendingPurge.map((entry) => entry.apiKey.id));
+		toast.success(
+			`Permanently deleted ${count} API key${count === 1 ? '' : 's'}`
+		);
+		setPendingPurge(null);
+	};
+
+	return (
+		<>
+			<Dialog open={open} onOpenChange={onOpenChange}>
+				<DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[560px]">
+					<DialogHeader>
+						<DialogTitle className="flex items-center gap-2">
+							<Trash2 className="h-5 w-5" />
+							Trash
+						</DialogTitle>
+						<DialogDescription>
+							Deleted keys can be restored for {TRASH_RETENTION_DAYS} days,
+							after which they are permanently deleted.
+						</DialogDescription>
+					</DialogHeader>
+
+					{trash.length === 0 ? (
+						<p className="py-8 text-center text-sm text-muted-foreground">
+							The trash is empty
+						</p>
+					) : (
+						<ul className="space-y-3 py-2">
+							{trash.map((entry) => {
+								const daysLeft = Math.max(
+									0,
+									Math.ceil(
+										(getTrashPurgeDate(entry).getTime() - Date.now()) / DAY_MS
+									)
+								);
+								return (
+									<li
+										key={entry.apiKey.id}
+										className="flex items-center gap-3 rounded-lg border p-3"
+									>
+										<div className="min-w-0 flex-1">
+											<div className="truncate font-medium">
+												{entry.apiKey.name}
+											</div>
+											<code className="font-mono text-xs text-muted-foreground">
+												{getMaskedKey(entry.apiKey)}
+											</code>
+											<div className="text-xs text-muted-foreground">
+												Deleted {formatRelativeTime(entry.deletedAt)}
+												{entry.deletedBy && ` by ${entry.deletedBy}`} ·{' '}
+												{daysLeft} day{daysLeft === 1 ? '' : 's'} left
+											</div>
+										</div>
+										<Button
+											variant="outline"
+											size="sm"
+											className="gap-1"
+											onClick={() => handleRestore(entry)}
+										>
+											<RotateCcw className="h-3.5 w-3.5" />
+											Restore
+										</Button>
+										<Button
+											variant="ghost"
+											size="icon-sm"
+											className="text-destructive"
+											aria-label={`Permanently delete ${entry.apiKey.name}`}
+											onClick={() => setPendingPurge([entry])}
+										>
+											<Trash2 className="h-4 w-4" />
+										</Button>
+									</li>
+								);
+							})}
+						</ul>
+					)}
+
+					{trash.length > 0 && (
+						<div className="flex justify-end">
+							<Button
+								variant="outline"
+								className="text-destructive"
+								onClick={() => setPendingPurge(trash)}
+							>
+								Empty trash
+							</Button>
+						</div>
+					)}
+				</DialogContent>
+			</Dialog>
+
+			<AlertDialog
+				open={pendingPurge !== null}
+				onOpenChange={(isOpen) => !isOpen && setPendingPurge(null)}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>
+							Permanently delete{' '}
+							{pendingPurge?.length === 1
+								? `"${pendingPurge[0].apiKey.name}"`
+								: `${pendingPurge?.length ?? 0} API keys`}
+							?
+						</AlertDialogTitle>
+						<AlertDialogDescription>
+							This action cannot be undone.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Cancel</AlertDialogCancel>
+						<AlertDialogAction
+							onClick={handlePurgeConfirm}
+							className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+						>
+							Delete Forever
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</>
+	);
+}
@@ -1,13 +1,14 @@
 import { LogOut, User } from 'lucide-react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { EnvironmentToggle } from '@/components/environment/EnvironmentToggle';
-import { getRouteLabel } from '@/config/routes';
+import { getParentRoute, getRouteLabel } from '@/config/routes';
 import { useAuth } from '@/contexts/AuthContext';
 
 export function Header() {
 	const location = useLocation();
 	const navigate = useNavigate();
 	const { user, logout } = useAuth();
+	const parentRoute = getParentRoute(location.pathname);
 
 	const handleLogout = () => {
 		logout();
@@ -24,6 +25,19 @@ export function Header() {
 					Home
 				</Link>
 				<span className="text-text-secondary-dark text-sm font-medium">/</span>
+				{parentRoute && (
+					<>
+						<Link
+							to={parentRoute.to}
+							className="text-text-secondary-dark text-sm font-medium hover:text-text-link-hover-dark transition-colors"
+						>
+							{parentRoute.label}
+						</Link>
+						<span className="text-text-secondary-dark text-sm font-medium">
+							/
+						</span>
+					</>
+				)}
 				<span className="text-text-primary-dark text-sm font-medium">
 					{getRouteLabel(location.pathname)}
 				</span>
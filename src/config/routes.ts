@@ -1,5 +1,12 @@
 import type { LucideIcon } from 'lucide-react';
-import { BarChart3, BookOpen, Key, LayoutDashboard } from 'lucide-react';
+import {
+	BarChart3,
+	BookOpen,
+	Key,
+	LayoutDashboard,
+	Terminal
+} from 'lucide-react';
+import { matchPath } from 'react-router-dom';
 
 export interface RouteConfig {
 	to: string;
@@ -17,14 +24,42 @@ export const ROUTES: RouteConfig[] = [
 	{ to: '/', icon: LayoutDashboard, label: 'Dashboard', fillWhenActive: true },
 	{ to: '/keys', icon: Key, label: 'API Keys' },
 	{ to: '/usage', icon: BarChart3, label: 'Usage' },
+	{ to: '/sandbox', icon: Terminal, label: 'Sandbox' },
 	{ to: '/docs', icon: BookOpen, label: 'Documentation' }
 ] as const;
 
+/**
+ * Detail page for a single API key. Not shown in the sidebar.
+ */
+export const KEY_DETAIL_PATH = '/keys/:id';
+
+/**
+ * Build the detail page path for an API key.
+ */
+export function getKeyDetailPath(id: string): string {
+	return `/keys/${encodeURIComponent(id)}`;
+}
+
 /**
  * Get route label by path. Returns 'Dashboard' as fallback.
  * Used by Header component for breadcrumb generation.
  */
 export function getRouteLabel(pathname: string): string {
+	if (matchPath(KEY_DETAIL_PATH, pathname)) {
+		return 'Key Details';
+	}
 	const route = ROUTES.find((r) => r.to === pathname);
 	return route?.label ?? 'Dashboard';
 }
+
+/**
+ * Get the top-level route a nested page belongs to, e.g. API Keys for a key
+ * detail page. Returns undefined for top-level pages.
+ * Used by Header component to add the parent to the breadcrumbs.
+ */
+export function getParentRoute(pathname: string): RouteConfig | undefined {
+	if (matchPath(KEY_DETAIL_PATH, pathname)) {
+		return ROUTES.find((r) => r.to === '/keys');
+	}
+	return undefined;
+}
@@ -8,7 +8,8 @@ import {
 	useRef,
 	useState
 } from 'react';
-import { isStorageAvailable } from '@/lib/storage';
+import { createRepository } from '@/lib/storage';
+import { publishSyncEvent, subscribeToSyncEvents } from '@/lib/syncBus';
 
 /**
  * SECURITY NOTE: This is a DEMO implementation for showcase purposes only.
@@ -52,6 +53,27 @@ interface AuthContextValue {
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
+/**
+ * @throws {Error} If the stored session is missing its user, token or expiry
+ */
+function validateSession(data: unknown): Session {
+	const session = data as Partial<Session> | null;
+	if (
+		typeof session?.user?.id !== 'string' ||
+		typeof session.token !== 'string' ||
+		typeof session.expiresAt !== 'number'
+	) {
+		throw new Error('Stored session is incomplete');
+	}
+	return session as Session;
+}
+
+const sessionRepository = createRepository<Session>(STORAGE_KEY, {
+	version: 1,
+	migrations: { 1: validateSession },
+	validate: validateSession
+});
+
 /**
  * Generate a mock JWT-style token for demo purposes.
  * In production, this would be provided by an authentication service.
@@ -69,47 +91,35 @@ function generateMockToken(): string {
 }
 
 /**
- * Load session from localStorage and validate expiry.
- * Returns null if session is expired, invalid, or storage unavailable.
+ * Check that a session has not expired.
  */
-function loadSession(): Session | null {
-	if (!isStorageAvailable()) {
-		return null;
-	}
-
-	try {
-		const stored = localStorage.getItem(STORAGE_KEY);
-		if (!stored) return null;
-
-		const session: Session = JSON.parse(stored);
+function isSessionValid(session: Session): boolean {
+	return Date.now() < session.expiresAt;
+}
 
-		if (Date.now() >= session.expiresAt) {
-			localStorage.removeItem(STORAGE_KEY);
-			return null;
-		}
+/**
+ * Load session from storage and validate expiry.
+ * Returns null if session is expired, invalid, or missing.
+ */
+function loadSession(): Session | null {
+	const session = sessionRepository.get();
+	if (!session) return null;
 
-		return session;
-	} catch (error) {
-		console.error('Failed to load session:', error);
-		if (isStorageAvailable()) {
-			localStorage.removeItem(STORAGE_KEY);
-		}
+	if (!isSessionValid(session)) {
+		clearSession();
 		return null;
 	}
+
+	return session;
 }
 
 /**
- * Save session to localStorage.
- * Returns true if successful, false if storage fails or is unavailable.
+ * Save session to storage.
+ * Returns true if successful, false if storage fails.
  */
 function saveSession(session: Session): boolean {
-	if (!isStorageAvailable()) {
-		console.warn('localStorage unavailable - session will not persist');
-		return false;
-	}
-
 	try {
-		localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+		sessionRepository.set(session);
 		return true;
 	} catch (error) {
 		console.error('Failed to save session:', error);
@@ -118,15 +128,11 @@ function saveSession(session: Session): boolean {
 }
 
 /**
- * Clear session from localStorage.
+ * Clear session from storage.
  */
 function clearSession(): void {
-	if (!isStorageAvailable()) {
-		return;
-	}
-
 	try {
-		localStorage.removeItem(STORAGE_KEY);
+		sessionRepository.remove();
 	} catch (error) {
 		console.error('Failed to clear session:', error);
 	}
@@ -142,10 +148,10 @@ interface AuthProviderProps {
  *
  * Features:
  * - Mock session with 24-hour expiry
- * - Persistent sessions via localStorage (with availability checks)
+ * - Persistent sessions via the storage repository
  * - Automatic token expiry handling with timeout
  * - Guest login with customizable user info
- * - Multi-tab synchronization via storage events
+ * - Multi-tab synchronization via the sync bus
  * - Manual login required (no auto-login)
  *
  * @example
@@ -222,6 +228,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
 			if (saved) {
 				setSession(newSession);
 				setExpiryTimeout(newSession.expiresAt);
+				publishSyncEvent({ type: 'session:login' });
 				return true;
 			}
 
@@ -238,43 +245,27 @@ export function AuthProvider({ children }: AuthProviderProps) {
 		clearExpiryTimeout();
 		clearSession();
 		setSession(null);
+		publishSyncEvent({ type: 'session:logout' });
 	}, [clearExpiryTimeout]);
 
-	useEffect(() => {
-		if (!isStorageAvailable()) {
-			return;
-		}
+	useEffect(
+		() =>
+			subscribeToSyncEvents((event, source) => {
+				if (source !== 'remote') return;
 
-		function handleStorageChange(e: StorageEvent) {
-			if (e.key !== STORAGE_KEY) {
-				return;
-			}
-
-			if (e.newValue === null) {
-				clearExpiryTimeout();
-				setSession(null);
-				return;
-			}
-
-			try {
-				const newSession: Session = JSON.parse(e.newValue);
-
-				if (Date.now() >= newSession.expiresAt) {
+				if (event.type === 'session:logout') {
 					clearExpiryTimeout();
 					setSession(null);
-					clearSession();
-				} else {
-					setSession(newSession);
-					setExpiryTimeout(newSession.expiresAt);
+				} else if (event.type === 'session:login') {
+					const newSession = loadSession();
+					if (newSession) {
+						setSession(newSession);
+						setExpiryTimeout(newSession.expiresAt);
+					}
 				}
-			} catch (error) {
-				console.error('Failed to parse session from storage event:', error);
-			}
-		}
-
-		window.addEventListener('storage', handleStorageChange);
-		return () => window.removeEventListener('storage', handleStorageChange);
-	}, [clearExpiryTimeout, setExpiryTimeout]);
+			}),
+		[clearExpiryTimeout, setExpiryTimeout]
+	);
 
 	useEffect(() => {
 		function handleVisibilityChange() {
@@ -7,7 +7,8 @@ import {
 	useMemo,
 	useState
 } from 'react';
-import { isStorageAvailable } from '@/lib/storage';
+import { createRepository } from '@/lib/storage';
+import { publishSyncEvent, subscribeToSyncEvents } from '@/lib/syncBus';
 
 /**
  * Environment modes supported by the application.
@@ -19,6 +20,23 @@ export type EnvironmentMode = 'test' | 'production';
 const STORAGE_KEY = 'environment_mode';
 const DEFAULT_MODE: EnvironmentMode = 'test';
 
+/**
+ * @throws {Error} If the stored value is not a known mode
+ */
+function validateMode(data: unknown): EnvironmentMode {
+	if (data !== 'test' && data !== 'production') {
+		throw new Error(`Unknown environment mode ${JSON.stringify(data)}`);
+	}
+	return data;
+}
+
+const modeRepository = createRepository<EnvironmentMode>(STORAGE_KEY, {
+	version: 1,
+	// The mode used to be stored as a bare string
+	migrations: { 1: validateMode },
+	validate: validateMode
+});
+
 interface EnvironmentContextValue {
 	mode: EnvironmentMode;
 	isTestMode: boolean;
@@ -32,40 +50,20 @@ const EnvironmentContext = createContext<EnvironmentContextValue | undefined>(
 );
 
 /**
- * Load environment mode from localStorage.
- * Returns default mode if not found, invalid, or storage unavailable.
+ * Load environment mode from storage.
+ * Returns default mode if not found or invalid.
  */
 function loadMode(): EnvironmentMode {
-	if (!isStorageAvailable()) {
-		return DEFAULT_MODE;
-	}
-
-	try {
-		const stored = localStorage.getItem(STORAGE_KEY);
-		if (stored === 'test' || stored === 'production') {
-			return stored;
-		}
-		return DEFAULT_MODE;
-	} catch (error) {
-		console.error('Failed to load environment mode:', error);
-		return DEFAULT_MODE;
-	}
+	return modeRepository.get() ?? DEFAULT_MODE;
 }
 
 /**
- * Save environment mode to localStorage.
- * Returns true if successful, false if storage fails or is unavailable.
+ * Save environment mode to storage.
+ * Returns true if successful, false if storage fails.
  */
 function saveMode(mode: EnvironmentMode): boolean {
-	if (!isStorageAvailable()) {
-		console.warn(
-			'localStorage unavailable - environment mode will not persist'
-		);
-		return false;
-	}
-
 	try {
-		localStorage.setItem(STORAGE_KEY, mode);
+		modeRepository.set(mode);
 		return true;
 	} catch (error) {
 		console.error('Failed to save environment mode:', error);
@@ -83,10 +81,10 @@ interface EnvironmentProviderProps {
  *
  * Features:
  * - Test/production mode management
- * - Persistent mode via localStorage (with availability checks)
+ * - Persistent mode via the storage repository
  * - Type-safe mode values
  * - Toggle function for easy switching
- * - Multi-tab synchronization via storage events
+ * - Multi-tab synchronization via the sync bus
  * - Defaults to test mode for safety
  *
  * @example
@@ -98,12 +96,13 @@ export function EnvironmentProvider({ children }: EnvironmentProviderProps) {
 	const [mode, setModeState] = useState<EnvironmentMode>(() => loadMode());
 
 	/**
-	 * Set environment mode and persist to localStorage.
+	 * Set environment mode and persist to storage.
 	 * Updates state even if storage fails (mode active in current session only).
 	 */
 	const setMode = useCallback((newMode: EnvironmentMode) => {
 		setModeState(newMode);
 		const saved = saveMode(newMode);
+		publishSyncEvent({ type: 'environment:changed', mode: newMode });
 
 		if (!saved) {
 			console.warn('Mode changed to', newMode, 'but will not persist');
@@ -117,26 +116,15 @@ export function EnvironmentProvider({ children }: EnvironmentProviderProps) {
 		setMode(mode === 'test' ? 'production' : 'test');
 	}, [mode, setMode]);
 
-	useEffect(() => {
-		if (!isStorageAvailable()) {
-			return;
-		}
-
-		function handleStorageChange(e: StorageEvent) {
-			if (e.key !== STORAGE_KEY) {
-				return;
-			}
-
-			if (e.newValue === 'test' || e.newValue === 'production') {
-				setModeState(e.newValue);
-			} else {
-				setModeState(DEFAULT_MODE);
-			}
-		}
-
-		window.addEventListener('storage', handleStorageChange);
-		return () => window.removeEventListener('storage', handleStorageChange);
-	}, []);
+	useEffect(
+		() =>
+			subscribeToSyncEvents((event, source) => {
+				if (event.type === 'environment:changed' && source === 'remote') {
+					setModeState(event.mode);
+				}
+			}),
+		[]
+	);
 
 	useEffect(() => {
 		const loadedMode = loadMode();
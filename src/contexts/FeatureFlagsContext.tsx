@@ -1,10 +1,12 @@
 import {
-	type ReactNode,
 	createContext,
+	type ReactNode,
 	useContext,
 	useEffect,
 	useState
 } from 'react';
+import { createRepository } from '@/lib/storage';
+import { publishSyncEvent, subscribeToSyncEvents } from '@/lib/syncBus';
 
 /**
  * Feature flags configuration
@@ -35,58 +37,72 @@ const DEFAULT_FLAGS: FeatureFlags = {
 const STORAGE_KEY = 'feature_flags';
 
 /**
- * Feature Flags Provider
- * Manages feature flag state with localStorage persistence
+ * Keep known flags with boolean values; missing flags get their defaults and
+ * flags that no longer exist are dropped.
+ *
+ * @throws {Error} If the stored value is not an object
  */
-export function FeatureFlagsProvider({ children }: { children: ReactNode }) {
-	const [flags, setFlags] = useState<FeatureFlags>(() => {
-		if (typeof window === 'undefined') return DEFAULT_FLAGS;
-
-		try {
-			const stored = localStorage.getItem(STORAGE_KEY);
-			if (stored) {
-				const parsed = JSON.parse(stored) as Partial<FeatureFlags>;
-				return { ...DEFAULT_FLAGS, ...parsed };
-			}
-		} catch (error) {
-			console.error('Failed to load feature flags from localStorage:', error);
+function validateFlags(data: unknown): FeatureFlags {
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		throw new Error('Expected an object of feature flags');
+	}
+	const stored = data as Record<string, unknown>;
+	const flags = { ...DEFAULT_FLAGS };
+	for (const flag of Object.keys(DEFAULT_FLAGS) as (keyof FeatureFlags)[]) {
+		if (typeof stored[flag] === 'boolean') {
+			flags[flag] = stored[flag];
 		}
+	}
+	return flags;
+}
 
-		return DEFAULT_FLAGS;
-	});
+const flagsRepository = createRepository<FeatureFlags>(STORAGE_KEY, {
+	version: 1,
+	migrations: { 1: validateFlags },
+	validate: validateFlags
+});
+
+/**
+ * Feature Flags Provider
+ * Manages feature flag state with persistence through the storage repository
+ */
+export function FeatureFlagsProvider({ children }: { children: ReactNode }) {
+	const [flags, setFlags] = useState<FeatureFlags>(
+		() => flagsRepository.get() ?? DEFAULT_FLAGS
+	);
 
 	useEffect(() => {
 		try {
-			localStorage.setItem(STORAGE_KEY, JSON.stringify(flags));
+			flagsRepository.set(flags);
 		} catch (error) {
-			console.error('Failed to save feature flags to localStorage:', error);
+			console.error('Failed to save feature flags:', error);
 		}
 	}, [flags]);
 
-	useEffect(() => {
-		const handleStorageChange = (e: StorageEvent) => {
-			if (e.key === STORAGE_KEY && e.newValue) {
-				try {
-					const parsed = JSON.parse(e.newValue) as Partial<FeatureFlags>;
-					setFlags({ ...DEFAULT_FLAGS, ...parsed });
-				} catch (error) {
-					console.error(
-						'Failed to parse feature flags from storage event:',
-						error
-					);
+	useEffect(
+		() =>
+			subscribeToSyncEvents((event, source) => {
+				if (
+					event.type === 'flag:toggled' &&
+					source === 'remote' &&
+					event.flag in DEFAULT_FLAGS
+				) {
+					setFlags((prev) => ({
+						...prev,
+						[event.flag]: event.enabled
+					}));
 				}
-			}
-		};
-
-		window.addEventListener('storage', handleStorageChange);
-		return () => window.removeEventListener('storage', handleStorageChange);
-	}, []);
+			}),
+		[]
+	);
 
 	const toggleFlag = (flag: keyof FeatureFlags) => {
+		const enabled = !flags[flag];
 		setFlags((prev) => ({
 			...prev,
-			[flag]: !prev[flag]
+			[flag]: enabled
 		}));
+		publishSyncEvent({ type: 'flag:toggled', flag, enabled });
 	};
 
 	const isEnabled = (flag: keyof FeatureFlags): boolean => {
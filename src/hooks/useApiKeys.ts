@@ -0,0 +1,49 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import type { EnvironmentMode } from '@/contexts/EnvironmentContext';
+import {
+	getApiKeyStoreSnapshot,
+	reloadApiKeys,
+	subscribeToApiKeyStore
+} from '@/lib/apiKeyStore';
+import type { ApiKey } from '@/lib/apiKeys';
+
+export interface ApiKeysFilter {
+	environment?: EnvironmentMode;
+	id?: string;
+}
+
+interface ApiKeysState {
+	/** Matching keys, newest first */
+	keys: ApiKey[];
+	loading: boolean;
+	error: string | null;
+	reload: () => Promise<void>;
+}
+
+/**
+ * Stored API keys, kept current as keys change in this tab or another.
+ *
+ * @example
+ * const { keys, loading, error } = useApiKeys({ environment: mode });
+ */
+export function useApiKeys({
+	environment,
+	id
+}: ApiKeysFilter = {}): ApiKeysState {
+	const { keys, loading, error } = useSyncExternalStore(
+		subscribeToApiKeyStore,
+		getApiKeyStoreSnapshot
+	);
+
+	const filteredKeys = useMemo(
+		() =>
+			keys.filter(
+				(key) =>
+					(environment === undefined || key.environment === environment) &&
+					(id === undefined || key.id === id)
+			),
+		[keys, environment, id]
+	);
+
+	return { keys: filteredKeys, loading, error, reload: reloadApiKeys };
+}
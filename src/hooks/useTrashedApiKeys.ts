@@ -0,0 +1,19 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import type { EnvironmentMode } from '@/contexts/EnvironmentContext';
+import { getTrashSnapshot, subscribeToTrash } from '@/lib/apiKeyStore';
+import type { TrashedApiKey } from '@/lib/apiKeys';
+
+/**
+ * Keys in the trash for an environment, most recently deleted first, kept
+ * current as the trash changes in this tab or another.
+ */
+export function useTrashedApiKeys(
+	environment: EnvironmentMode
+): TrashedApiKey[] {
+	const trash = useSyncExternalStore(subscribeToTrash, getTrashSnapshot);
+
+	return useMemo(
+		() => trash.filter((entry) => entry.apiKey.environment === environment),
+		[trash, environment]
+	);
+}
@@ -0,0 +1,68 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import type { EnvironmentMode } from '@/contexts/EnvironmentContext';
+import { fetchUsageDataset } from '@/lib/usage';
+import {
+	getRecordedRequests,
+	subscribeToRecordedRequests,
+	withRecordedRequests
+} from '@/lib/usageLog';
+import type { UsageDataset } from '@/types/mock-data';
+
+interface UsageDatasetState {
+	data: UsageDataset | null;
+	loading: boolean;
+	error: string | null;
+}
+
+/**
+ * Load the usage dataset for an environment, including requests recorded in
+ * the sandbox, which are added as they happen.
+ * Results for a previous environment are ignored once the mode changes.
+ *
+ * @example
+ * const { data, loading, error } = useUsageDataset(mode);
+ */
+export function useUsageDataset(mode: EnvironmentMode): UsageDatasetState {
+	const [state, setState] = useState<UsageDatasetState>({
+		data: null,
+		loading: true,
+		error: null
+	});
+
+	useEffect(() => {
+		let cancelled = false;
+		setState((prev) => ({ ...prev, loading: true, error: null }));
+
+		fetchUsageDataset(mode)
+			.then((data) => {
+				if (!cancelled) {
+					setState({ data, loading: false, error: null });
+				}
+			})
+			.catch((err: unknown) => {
+				if (!cancelled) {
+					setState({
+						data: null,
+						loading: false,
+						error:
+							err instanceof Error ? err.message : 'Failed to load usage data'
+					});
+				}
+			});
+
+		// Ignore the result if the component unmounts or mode changes
+		return () => {
+			cancelled = true;
+		};
+	}, [mode]);
+
+	const recorded = useSyncExternalStore(subscribeToRecordedRequests, () =>
+		getRecordedRequests(mode)
+	);
+	const data = useMemo(
+		() => state.data && withRecordedRequests(state.data, recorded),
+		[state.data, recorded]
+	);
+
+	return { ...state, data };
+}
@@ -0,0 +1,255 @@
+/**
+ * IP (CIDR) and referrer-origin allowlists for API keys.
+ *
+ * An empty allowlist places no restriction. A non-empty one only lets through
+ * requests whose client IP / referrer matches at least one entry.
+ */
+
+type ParsedIp = {
+	version: 4 | 6;
+	value: bigint;
+};
+
+const IPV4_BITS = 32;
+const IPV6_BITS = 128;
+
+/**
+ * Parse a dotted-quad IPv4 address, e.g. "203.0.113.7".
+ */
+function parseIpv4(address: string): bigint | null {
+	const octets = address.split('.');
+	if (octets.length !== 4) return null;
+
+	let value = 0n;
+	for (const octet of octets) {
+		if (!/^\d{1,3}$/.test(octet)) return null;
+		const n = Number(octet);
+		if (n > 255 || (octet.length > 1 && octet.startsWith('0'))) return null;
+		value = (value << 8n) | BigInt(n);
+	}
+	return value;
+}
+
+/**
+ * Parse hex groups of an IPv6 address half, allowing an IPv4 tail ("::ffff:1.2.3.4").
+ */
+function parseIpv6Groups(
+	part: string,
+	allowIpv4Tail: boolean
+): number[] | null {
+	if (part === '') return [];
+
+	const groups: number[] = [];
+	const segments = part.split(':');
+	for (const [index, segment] of segments.entries()) {
+		if (
+			allowIpv4Tail &&
+			index === segments.length - 1 &&
+			segment.includes('.')
+		) {
+			const ipv4 = parseIpv4(segment);
+			if (ipv4 === null) return null;
+			groups.push(Number(ipv4 >> 16n), Number(ipv4 & 0xffffn));
+			continue;
+		}
+		if (!/^[0-9a-f]{1,4}$/i.test(segment)) return null;
+		groups.push(Number.parseInt(segment, 16));
+	}
+	return groups;
+}
+
+/**
+ * Parse an IPv6 address, including "::" compression, e.g. "2001:db8::1".
+ */
+function parseIpv6(address: string): bigint | null {
+	const halves = address.split('::');
+	if (halves.length > 2) return null;
+
+	const head = parseIpv6Groups(halves[0], halves.length === 1);
+	const tail = halves.length === 2 ? parseIpv6Groups(halves[1], true) : [];
+	if (!head || !tail) return null;
+
+	const missing = 8 - head.length - tail.length;
+	if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+	const groups = [...head, ...Array(Math.max(missing, 0)).fill(0), ...tail];
+	return groups.reduce<bigint>(
+		(value, group) => (value << 16n) | BigInt(group),
+		0n
+	);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address.
+ */
+function parseIp(address: string): ParsedIp | null {
+	const trimmed = address.trim();
+	if (trimmed.includes(':')) {
+		const value = parseIpv6(trimmed);
+		return value === null ? null : { version: 6, value };
+	}
+	const value = parseIpv4(trimmed);
+	return value === null ? null : { version: 4, value };
+}
+
+/**
+ * Parse a CIDR range ("10.0.0.0/8", "2001:db8::/32") or a single address,
+ * which is treated as a /32 or /128.
+ */
+function parseCidr(
+	cidr: string
+): { network: ParsedIp; prefixLength: number } | null {
+	const [address, prefix, ...rest] = cidr.trim().split('/');
+	if (rest.length > 0) return null;
+
+	const network = parseIp(address);
+	if (!network) return null;
+
+	const maxBits = network.version === 4 ? IPV4_BITS : IPV6_BITS;
+	if (prefix === undefined) {
+		return { network, prefixLength: maxBits };
+	}
+	if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > maxBits) return null;
+	return { network, prefixLength: Number(prefix) };
+}
+
+/**
+ * Bit mask selecting the network part of an address.
+ */
+function networkMask(prefixLength: number, bits: number): bigint {
+	const all = (1n << BigInt(bits)) - 1n;
+	return (all << BigInt(bits - prefixLength)) & all;
+}
+
+/**
+ * Check whether an IP address falls within a CIDR range.
+ * IPv4 and IPv6 never match each other.
+ */
+export function isIpInCidr(ip: string, cidr: string): boolean {
+	const address = parseIp(ip);
+	const range = parseCidr(cidr);
+	if (!address || !range || address.version !== range.network.version) {
+		return false;
+	}
+
+	const bits = address.version === 4 ? IPV4_BITS : IPV6_BITS;
+	const mask = networkMask(range.prefixLength, bits);
+	return (address.value & mask) === (range.network.value & mask);
+}
+
+/**
+ * Validate and normalize IP allowlist entries (one CIDR or address per entry).
+ * Blank entries are dropped and duplicates removed.
+ *
+ * @throws {Error} If an entry is not a valid IPv4/IPv6 address or CIDR range
+ */
+export function normalizeIpAllowlist(entries: string[]): string[] {
+	const normalized = entries.map((entry) => entry.trim()).filter(Boolean);
+	const invalid = normalized.find((entry) => !parseCidr(entry));
+	if (invalid) {
+		throw new Error(
+			`"${invalid}" is not a valid IP address or CIDR range (e.g. 203.0.113.0/24 or 2001:db8::/32)`
+		);
+	}
+	return [...new Set(normalized.map((entry) => entry.toLowerCase()))];
+}
+
+/**
+ * Validate and normalize referrer-origin allowlist entries.
+ * Entries are origins such as "https://app.example.com"; a leading "*." in the
+ * host ("https://*.example.com") matches any subdomain. The wildcard must be
+ * the whole leftmost label and be followed by at least two more labels.
+ *
+ * @throws {Error} If an entry is not an http(s) origin without path, or uses
+ * the wildcard anywhere else
+ */
+export function normalizeOriginAllowlist(entries: string[]): string[] {
+	const normalized = entries
+		.map((entry) => entry.trim().replace(/\/$/, ''))
+		.filter(Boolean)
+		.map((entry) => {
+			const wildcard = entry.includes('://*.');
+			let url: URL;
+			try {
+				url = new URL(entry.replace('://*.', '://'));
+			} catch {
+				throw new Error(`"${entry}" is not a valid origin`);
+			}
+			if (
+				(url.protocol !== 'https:' && url.protocol !== 'http:') ||
+				url.pathname !== '/' ||
+				url.search ||
+				url.hash
+			) {
+				throw new Error(
+					`"${entry}" must be an origin like https://app.example.com, without a path`
+				);
+			}
+			if (url.hostname.includes('*')) {
+				throw new Error(
+					`"${entry}" may only use * as the whole leftmost label, e.g. https://*.example.com`
+				);
+			}
+			if (wildcard && url.hostname.split('.').filter(Boolean).length < 2) {
+				throw new Error(
+					`"${entry}" matches too broadly; a wildcard needs at least two more labels, e.g. https://*.example.com`
+				);
+			}
+			return wildcard ? url.origin.replace('://', '://*.') : url.origin;
+		});
+	return [...new Set(normalized)];
+}
+
+/**
+ * Split textarea input into allowlist entries (one per line or comma separated).
+ */
+export function parseAllowlistInput(input: string): string[] {
+	return input
+		.split(/[\n,]+/)
+		.map((entry) => entry.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Check a client IP against an allowlist. An empty allowlist allows every IP.
+ */
+export function isIpAllowed(
+	ip: string | undefined,
+	allowlist: string[]
+): boolean {
+	if (allowlist.length === 0) return true;
+	if (!ip) return false;
+	return allowlist.some((cidr) => isIpInCidr(ip, cidr));
+}
+
+/**
+ * Check a request's referrer (full URL or origin) against an allowlist.
+ * An empty allowlist allows every referrer, including none.
+ */
+export function isOriginAllowed(
+	referrer: string | undefined,
+	allowlist: string[]
+): boolean {
+	if (allowlist.length === 0) return true;
+	if (!referrer) return false;
+
+	let origin: URL;
+	try {
+		origin = new URL(referrer);
+	} catch {
+		return false;
+	}
+
+	return allowlist.some((allowed) => {
+		if (!allowed.includes('://*.')) {
+			return allowed === origin.origin;
+		}
+		const [protocol, host] = allowed.split('://*.');
+		const suffix = new URL(`${protocol}://${host}`);
+		return (
+			origin.protocol === suffix.protocol &&
+			origin.port === suffix.port &&
+			origin.hostname.endsWith(`.${suffix.hostname}`)
+		);
+	});
+}
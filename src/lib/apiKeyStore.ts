@@ -0,0 +1,149 @@
+/**
+ * Subscribable views of the stored API keys and the trash, read by the
+ * useApiKeys and useTrashedApiKeys hooks.
+ *
+ * Mutations in apiKeys.ts publish sync events; the store listens for them, so
+ * every page, card and modal reading keys through it updates after a change
+ * made here or in another tab without passing refresh callbacks around.
+ */
+
+import {
+	type ApiKey,
+	getApiKeys,
+	getApiKeysStorageStamp,
+	getTrashedApiKeys,
+	getTrashStorageStamp,
+	subscribeToRejectedKeyWrites,
+	type TrashedApiKey
+} from './apiKeys';
+import { getStorageBackend } from './storage';
+import { isKeySyncEvent, subscribeToSyncEvents } from './syncBus';
+
+export type ApiKeyStoreSnapshot = {
+	/** All keys, newest first */
+	keys: ApiKey[];
+	/** True while keys are being reloaded from an asynchronous backend */
+	loading: boolean;
+	/** Why the last reload failed, if it did */
+	error: string | null;
+};
+
+const listeners = new Set<() => void>();
+
+let snapshot: ApiKeyStoreSnapshot | null = null;
+let snapshotStamp: string | null = null;
+let loading = false;
+let error: string | null = null;
+let unsubscribeFromSync: (() => void) | null = null;
+
+function notify(): void {
+	snapshot = null;
+	for (const listener of listeners) listener();
+}
+
+/**
+ * Current keys and load state. The same object is returned until the stored
+ * keys or the load state change, as useSyncExternalStore requires.
+ */
+export function getApiKeyStoreSnapshot(): ApiKeyStoreSnapshot {
+	// Storage is the source of truth: also catches writes that publish no event
+	const stamp = getApiKeysStorageStamp();
+	if (snapshot === null || stamp !== snapshotStamp) {
+		try {
+			snapshot = { keys: getApiKeys(), loading, error };
+		} catch (err) {
+			snapshot = {
+				keys: [],
+				loading,
+				error: err instanceof Error ? err.message : 'Failed to load API keys'
+			};
+		}
+		snapshotStamp = stamp;
+	}
+	return snapshot;
+}
+
+/**
+ * Listen for changes to the stored keys.
+ * @returns Unsubscribe function
+ */
+export function subscribeToApiKeyStore(listener: () => void): () => void {
+	listeners.add(listener);
+	if (!unsubscribeFromSync) {
+		const unsubscribeFromEvents = subscribeToSyncEvents((event) => {
+			if (isKeySyncEvent(event)) notify();
+		});
+		// The backend has already reloaded the keys a rejected write was based on
+		const unsubscribeFromRejected = subscribeToRejectedKeyWrites(notify);
+		unsubscribeFromSync = () => {
+			unsubscribeFromEvents();
+			unsubscribeFromRejected();
+		};
+	}
+
+	return () => {
+		listeners.delete(listener);
+		if (listeners.size === 0) {
+			unsubscribeFromSync?.();
+			unsubscribeFromSync = null;
+		}
+	};
+}
+
+/**
+ * Reload keys from storage, e.g. after a write was rejected as stale.
+ * Backends that cache another store fetch it again; failures are reported
+ * through the snapshot's error rather than thrown.
+ */
+export async function reloadApiKeys(): Promise<void> {
+	const backend = getStorageBackend();
+	if (!backend.refresh) {
+		notify();
+		return;
+	}
+
+	loading = true;
+	error = null;
+	notify();
+	try {
+		await backend.refresh();
+	} catch (err) {
+		console.error('Failed to reload API keys:', err);
+		error = err instanceof Error ? err.message : 'Failed to load API keys';
+	} finally {
+		loading = false;
+		notify();
+	}
+}
+
+/** Trash entries and the stored value they were read from */
+let trashSnapshot: { stamp: string | null; entries: TrashedApiKey[] } | null =
+	null;
+
+/**
+ * Keys in the trash, most recently deleted first. The same array is returned
+ * until the trash changes.
+ */
+export function getTrashSnapshot(): TrashedApiKey[] {
+	const stamp = getTrashStorageStamp();
+	if (trashSnapshot?.stamp !== stamp) {
+		let entries: TrashedApiKey[] = [];
+		try {
+			entries = getTrashedApiKeys();
+		} catch {
+			// Reported when the trash is written to, which is refused
+		}
+		trashSnapshot = { stamp, entries };
+	}
+	return trashSnapshot.entries;
+}
+
+/**
+ * Listen for changes to the trash, in this tab or another.
+ * @returns Unsubscribe function
+ */
+export function subscribeToTrash(listener: () => void): () => void {
+	return subscribeToSyncEvents((event) => {
+		if (event.type === 'trash:changed') listener();
+	});
+}
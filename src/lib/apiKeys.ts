@@ -1,22 +1,250 @@
+import { normalizeIpAllowlist, normalizeOriginAllowlist } from './allowlist';
+import { formatApiKey } from './keyFormat';
+import { type KeyMetadata, normalizeMetadata } from './keyMetadata';
+import { getKeyNameError, normalizeKeyName } from './keyName';
+import {
+	type ApiKeyScope,
+	getFullAccessScopes,
+	normalizeScopes
+} from './scopes';
+import {
+	createRepository,
+	type RepositorySchema,
+	subscribeToRejectedWrites
+} from './storage';
+import { publishSyncEvent } from './syncBus';
+
 export type ApiKey = {
 	id: string;
 	name: string;
-	key: string;
+	/** SHA-256 digest (hex) of the full secret. The secret itself is never stored. */
+	keyHash: string;
+	/** Key prefix without the trailing underscore, e.g. "sk_demo" */
+	prefix: string;
+	/** Last four characters of the secret, kept for display and search */
+	last4: string;
 	environment: 'test' | 'production';
 	createdAt: string;
 	revoked: boolean;
+	scopes: ApiKeyScope[];
+	/** ISO timestamp after which the key stops working. Null means it never expires. */
+	expiresAt?: string | null;
+	/** Secrets replaced by a rotation that stay valid until their grace period ends */
+	previousSecrets?: PreviousSecret[];
+	/** Every secret this key has had, oldest first. The last entry is the current secret. */
+	versions?: KeyVersion[];
+	description?: string;
+	/** Person or team responsible for the key */
+	owner?: string;
+	/** Free-form labels such as "service:billing" or "team:mobile" */
+	tags?: string[];
+	/** IPv4/IPv6 addresses or CIDR ranges allowed to use the key. Empty means any IP. */
+	allowedIps?: string[];
+	/** Referrer origins allowed to use the key, e.g. "https://*.example.com". Empty means any origin. */
+	allowedOrigins?: string[];
+	/** Maximum requests per minute. Null means no rate limit. */
+	rateLimitPerMinute?: number | null;
+	/** Maximum requests per calendar month. Null means no quota. */
+	monthlyQuota?: number | null;
+	/** Incremented on every change, to detect writes based on a stale copy */
+	revision?: number;
+};
+
+/**
+ * Usage limits of a key. Null disables a limit.
+ */
+export type KeyLimits = {
+	rateLimitPerMinute: number | null;
+	monthlyQuota: number | null;
+};
+
+/**
+ * Network restrictions on where a key may be used from.
+ */
+export type KeyRestrictions = {
+	allowedIps: string[];
+	allowedOrigins: string[];
+};
+
+/**
+ * A rotated-out secret that remains valid during the rotation grace period.
+ */
+export type PreviousSecret = {
+	keyHash: string;
+	last4: string;
+	rotatedAt: string;
+	expiresAt: string;
+};
+
+/**
+ * One secret in a key's rotation history.
+ * Actors are the signed-in user's email, or null when unknown.
+ */
+export type KeyVersion = {
+	version: number;
+	maskedKey: string;
+	createdAt: string;
+	createdBy: string | null;
+	rotatedAt: string | null;
+	rotatedBy: string | null;
+	revokedAt: string | null;
+	revokedBy: string | null;
+};
+
+export type CreateApiKeyOptions = {
+	scopes: ApiKeyScope[];
+	expiresAt?: string | null;
+	/** Who created the key, recorded in its version history */
+	actor?: string | null;
+	restrictions?: KeyRestrictions;
+};
+
+/**
+ * Lifecycle status of an API key.
+ * - active: usable, no expiry or expiry is far away
+ * - expiring: usable, but expires within EXPIRY_WARNING_DAYS
+ * - expired: past its expiry date
+ * - revoked: manually revoked
+ */
+export type ApiKeyStatus = 'active' | 'expiring' | 'expired' | 'revoked';
+
+/**
+ * A stored key together with its plaintext secret.
+ * Only returned by create/regenerate so the secret can be shown once.
+ */
+export type RevealedApiKey = {
+	apiKey: ApiKey;
+	secret: string;
+};
+
+/**
+ * Editable details of a key: its name plus descriptive metadata.
+ */
+export type ApiKeyDetails = KeyMetadata & {
+	name: string;
+};
+
+/**
+ * A deleted key waiting in the trash. It can be restored until
+ * TRASH_RETENTION_DAYS after deletion, after which it is purged.
+ */
+export type TrashedApiKey = {
+	apiKey: ApiKey;
+	deletedAt: string;
+	deletedBy: string | null;
+};
+
+/**
+ * Thrown when a write is based on a key or key list that has since been
+ * changed elsewhere, e.g. in another tab.
+ */
+export class ApiKeyConflictError extends Error {
+	/** Key that changed, or null if the conflict is on the whole key list */
+	readonly keyId: string | null;
+
+	constructor(message: string, keyId: string | null = null) {
+		super(message);
+		this.name = 'ApiKeyConflictError';
+		this.keyId = keyId;
+	}
+}
+
+/**
+ * Thrown when a key's name, metadata, scopes, expiry, restrictions or limits
+ * break a rule, as opposed to a storage failure.
+ */
+export class ApiKeyValidationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ApiKeyValidationError';
+	}
+}
+
+/**
+ * Changes to a key that updateApiKey applies in one write. Omitted fields are
+ * left as they are.
+ */
+export type ApiKeyChanges = Partial<ApiKeyDetails> & {
+	scopes?: ApiKeyScope[];
+	restrictions?: KeyRestrictions;
+	limits?: KeyLimits;
 };
 
+export type RegenerateApiKeyOptions = {
+	/** How long the old secret keeps working. Omit or 0 to invalidate it immediately. */
+	gracePeriodMs?: number;
+	/** Who rotated the key, recorded in its version history */
+	actor?: string | null;
+	/** Revision of the key the caller showed; rejects the rotation if it changed since */
+	expectedRevision?: number;
+};
+
+export const EXPIRY_WARNING_DAYS = 7;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Grace windows offered when rotating a key.
+ */
+export const GRACE_PERIOD_OPTIONS = [
+	{ value: '1h', label: '1 hour', ms: HOUR_MS },
+	{ value: '24h', label: '24 hours', ms: DAY_MS },
+	{ value: '7d', label: '7 days', ms: 7 * DAY_MS }
+] as const;
+
+export const TRASH_RETENTION_DAYS = 30;
+
 const STORAGE_KEY = 'api_keys';
+const TRASH_STORAGE_KEY = 'api_keys_trash';
+
+/**
+ * The stored key list. Its revision is incremented on every save.
+ */
+type StoredKeyCollection = {
+	revision: number;
+	keys: ApiKey[];
+};
 
 /**
- * Generate a random API key with environment prefix.
- * Format: sk_demo_xxx or sk_sandbox_xxx (avoids GitHub secret scanning)
+ * Stored shape of the key list. When ApiKey gains or changes a field, bump
+ * the version and add a migration that fills it in for existing keys.
+ */
+const KEYS_SCHEMA: RepositorySchema<StoredKeyCollection> = {
+	version: 2,
+	migrations: {
+		1: (data) => validateStoredKeys(data).map(normalizeKey),
+		// v2 wraps the list with a collection revision and adds key revisions
+		2: (data) => ({
+			revision: 1,
+			keys: validateStoredKeys(data).map((key) => ({
+				...key,
+				revision: key.revision ?? 1
+			}))
+		})
+	},
+	validate: validateStoredCollection
+};
+
+const TRASH_SCHEMA: RepositorySchema<TrashedApiKey[]> = {
+	version: 1,
+	migrations: {
+		1: (data) => data
+	},
+	validate: validateStoredTrash
+};
+
+const keysRepository = createRepository(STORAGE_KEY, KEYS_SCHEMA);
+const trashRepository = createRepository(TRASH_STORAGE_KEY, TRASH_SCHEMA);
+
+/**
+ * Generate a random API key with environment prefix and checksum.
+ * Format: sk_demo_xxx or sk_sandbox_xxx (avoids GitHub secret scanning),
+ * see keyFormat.ts for the checksum.
  */
 export function generateApiKey(environment: 'test' | 'production'): string {
-	const prefix = environment === 'test' ? 'sk_demo' : 'sk_sandbox';
-	const secret = crypto.randomUUID().replace(/-/g, '').slice(0, 32);
-	return `${prefix}_${secret}`;
+	const random = crypto.randomUUID().replace(/-/g, '').slice(0, 32);
+	return formatApiKey(environment, random);
 }
 
 /**
@@ -39,34 +267,459 @@ export function maskApiKey(key: string): string {
 }
 
 /**
- * Load keys from localStorage.
+ * Mask a stored key for display from its prefix and last four characters.
+ * Shows: sk_demo_••••••••last4
+ */
+export function getMaskedKey(
+	apiKey: Pick<ApiKey, 'prefix' | 'last4'>,
+	last4: string = apiKey.last4
+): string {
+	return `${apiKey.prefix}_••••••••${last4}`;
+}
+
+/**
+ * Hash an API key secret with SHA-256 (via SubtleCrypto).
+ *
+ * @returns Lowercase hex digest
+ */
+export async function hashApiKey(secret: string): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		'SHA-256',
+		new TextEncoder().encode(secret)
+	);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * Split a secret into the parts that are safe to store: hash, prefix and last4.
+ */
+export async function toStoredSecret(
+	secret: string
+): Promise<Pick<ApiKey, 'keyHash' | 'prefix' | 'last4'>> {
+	const separator = secret.lastIndexOf('_');
+	return {
+		keyHash: await hashApiKey(secret),
+		prefix: separator > 0 ? secret.slice(0, separator) : '',
+		last4: secret.slice(-4)
+	};
+}
+
+/**
+ * Whole days left until the key expires (0 on the last day).
+ * Returns null for keys that never expire.
+ */
+export function getDaysUntilExpiry(
+	apiKey: ApiKey,
+	now: Date = new Date()
+): number | null {
+	if (!apiKey.expiresAt) return null;
+	const remaining = new Date(apiKey.expiresAt).getTime() - now.getTime();
+	return Math.max(0, Math.floor(remaining / DAY_MS));
+}
+
+/**
+ * Derive the lifecycle status of a key. Revocation takes precedence over expiry.
+ */
+export function getApiKeyStatus(
+	apiKey: ApiKey,
+	now: Date = new Date()
+): ApiKeyStatus {
+	if (apiKey.revoked) return 'revoked';
+	if (!apiKey.expiresAt) return 'active';
+
+	const expiresAt = new Date(apiKey.expiresAt).getTime();
+	if (expiresAt <= now.getTime()) return 'expired';
+	if (expiresAt - now.getTime() <= EXPIRY_WARNING_DAYS * DAY_MS) {
+		return 'expiring';
+	}
+	return 'active';
+}
+
+/**
+ * True if the key can be moved to the trash. Only revoked keys can; active
+ * and expired keys are revoked first.
+ */
+export function canDeleteApiKey(apiKey: ApiKey): boolean {
+	return apiKey.revoked;
+}
+
+/**
+ * True if the key can currently be used (not revoked and not expired).
+ */
+export function isApiKeyActive(
+	apiKey: ApiKey,
+	now: Date = new Date()
+): boolean {
+	const status = getApiKeyStatus(apiKey, now);
+	return status === 'active' || status === 'expiring';
+}
+
+/**
+ * Previous secrets whose grace period has not ended yet.
+ */
+export function getActivePreviousSecrets(
+	apiKey: ApiKey,
+	now: Date = new Date()
+): PreviousSecret[] {
+	return (apiKey.previousSecrets ?? []).filter(
+		(secret) => new Date(secret.expiresAt).getTime() > now.getTime()
+	);
+}
+
+/**
+ * Stored shape written by versions of the app that kept plaintext secrets.
+ */
+type LegacyApiKey = Omit<
+	ApiKey,
+	'keyHash' | 'prefix' | 'last4' | 'previousSecrets'
+> &
+	Partial<Pick<ApiKey, 'keyHash' | 'prefix' | 'last4'>> & {
+		key?: string;
+		previousSecrets?: Array<Partial<PreviousSecret> & { key?: string }>;
+	};
+
+/**
+ * Replace plaintext secrets of a legacy key with hash, prefix and last4.
+ */
+async function migrateLegacyKey(key: LegacyApiKey): Promise<ApiKey> {
+	const { key: secret, previousSecrets, ...rest } = key;
+
+	const migratedPrevious = await Promise.all(
+		(previousSecrets ?? []).map(async ({ key: previous, ...stored }) => ({
+			...stored,
+			...(previous
+				? { keyHash: await hashApiKey(previous), last4: previous.slice(-4) }
+				: {})
+		}))
+	);
+
+	return {
+		...rest,
+		...(secret ? await toStoredSecret(secret) : {}),
+		previousSecrets: migratedPrevious
+	} as ApiKey;
+}
+
+/**
+ * True if the key was stored with a plaintext secret.
+ */
+function isLegacyKey(key: LegacyApiKey): boolean {
+	return (
+		typeof key.key === 'string' ||
+		(key.previousSecrets ?? []).some((secret) => typeof secret.key === 'string')
+	);
+}
+
+/**
+ * Start a new entry in a key's version history for its current secret.
+ */
+function createVersion(
+	key: ApiKey,
+	version: number,
+	actor: string | null
+): KeyVersion {
+	return {
+		version,
+		maskedKey: getMaskedKey(key),
+		createdAt: key.createdAt,
+		createdBy: actor,
+		rotatedAt: null,
+		rotatedBy: null,
+		revokedAt: null,
+		revokedBy: null
+	};
+}
+
+/**
+ * Version history of a key, oldest first.
+ * Keys stored before history was tracked start with their current secret as version 1.
+ */
+export function getKeyVersions(key: ApiKey): KeyVersion[] {
+	if (key.versions && key.versions.length > 0) {
+		return key.versions;
+	}
+	return [createVersion(key, 1, null)];
+}
+
+/**
+ * When the key's secret was last rotated, or null if it never was.
+ */
+export function getLastRotatedAt(key: ApiKey): string | null {
+	const versions = getKeyVersions(key);
+	return versions.length > 1 ? versions[versions.length - 1].createdAt : null;
+}
+
+/**
+ * Fill in fields missing from keys stored by older versions of the app.
+ * Keys without scopes predate permissions and keep full access.
+ */
+function normalizeKey(key: ApiKey): ApiKey {
+	return {
+		...key,
+		scopes: Array.isArray(key.scopes)
+			? normalizeScopes(key.scopes)
+			: getFullAccessScopes(),
+		expiresAt: key.expiresAt ?? null,
+		previousSecrets: getActivePreviousSecrets(key),
+		description: key.description ?? '',
+		owner: key.owner ?? '',
+		tags: Array.isArray(key.tags) ? key.tags : [],
+		allowedIps: Array.isArray(key.allowedIps) ? key.allowedIps : [],
+		allowedOrigins: Array.isArray(key.allowedOrigins) ? key.allowedOrigins : [],
+		rateLimitPerMinute: key.rateLimitPerMinute ?? null,
+		monthlyQuota: key.monthlyQuota ?? null,
+		revision: key.revision ?? 1
+	};
+}
+
+/**
+ * True if a stored record has the fields every key version has had. Keys
+ * saved before secrets were hashed have a plaintext `key` instead of `keyHash`.
+ */
+function isStoredKey(value: unknown): value is LegacyApiKey {
+	if (typeof value !== 'object' || value === null) return false;
+	const key = value as Partial<LegacyApiKey>;
+	return (
+		typeof key.id === 'string' &&
+		typeof key.name === 'string' &&
+		(key.environment === 'test' || key.environment === 'production') &&
+		typeof key.createdAt === 'string' &&
+		(typeof key.keyHash === 'string' || typeof key.key === 'string')
+	);
+}
+
+/**
+ * @throws {Error} If the stored key list or one of its keys is unreadable
+ */
+function validateStoredKeys(data: unknown): ApiKey[] {
+	if (!Array.isArray(data)) {
+		throw new Error('Expected a list of API keys');
+	}
+	const invalidIndex = data.findIndex((key) => !isStoredKey(key));
+	if (invalidIndex !== -1) {
+		throw new Error(`API key #${invalidIndex + 1} is missing required fields`);
+	}
+	return data as ApiKey[];
+}
+
+/**
+ * @throws {Error} If the stored collection or one of its keys is unreadable
+ */
+function validateStoredCollection(data: unknown): StoredKeyCollection {
+	const collection = data as Partial<StoredKeyCollection> | null;
+	if (typeof collection?.revision !== 'number') {
+		throw new Error('Expected a revision for the API key list');
+	}
+	return {
+		revision: collection.revision,
+		keys: validateStoredKeys(collection.keys)
+	};
+}
+
+/**
+ * @throws {Error} If the stored trash or one of its entries is unreadable
+ */
+function validateStoredTrash(data: unknown): TrashedApiKey[] {
+	if (!Array.isArray(data)) {
+		throw new Error('Expected a list of deleted API keys');
+	}
+	const invalidIndex = data.findIndex(
+		(entry) =>
+			typeof entry?.deletedAt !== 'string' || !isStoredKey(entry.apiKey)
+	);
+	if (invalidIndex !== -1) {
+		throw new Error(
+			`Deleted API key #${invalidIndex + 1} is missing required fields`
+		);
+	}
+	return data as TrashedApiKey[];
+}
+
+/**
+ * Load keys and the collection revision from storage.
+ * An empty store is revision 0. Unreadable keys are an error rather than an
+ * empty list, so no write replaces them.
+ *
+ * @throws {Error} If the stored keys cannot be read, e.g. were saved by a
+ * newer version of the app
+ */
+function loadKeyCollection(): StoredKeyCollection {
+	let stored: StoredKeyCollection | null;
+	try {
+		stored = keysRepository.read();
+	} catch (error) {
+		console.error('Failed to read API keys:', error);
+		throw new Error(
+			`Saved API keys could not be read: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+	return stored
+		? { revision: stored.revision, keys: stored.keys.map(normalizeKey) }
+		: { revision: 0, keys: [] };
+}
+
+/**
+ * Load keys from storage.
+ * @throws {Error} If the stored keys cannot be read
  */
 function loadKeys(): ApiKey[] {
+	return loadKeyCollection().keys;
+}
+
+/**
+ * Run a check from one of the validation modules, reporting the rule it
+ * enforces as an ApiKeyValidationError. Other errors are rethrown as they are.
+ */
+function validate<T>(check: () => T): T {
 	try {
-		const data = localStorage.getItem(STORAGE_KEY);
-		return data ? JSON.parse(data) : [];
-	} catch {
-		return [];
+		return check();
+	} catch (error) {
+		if (error instanceof Error && error.name === 'Error') {
+			throw new ApiKeyValidationError(error.message);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Reject a write based on a stale copy of a key.
+ *
+ * @param expectedRevision - Revision the caller loaded; omit to skip the check
+ * @throws {ApiKeyConflictError} If the key was deleted or changed since
+ */
+function assertKeyRevision(
+	keys: ApiKey[],
+	id: string,
+	expectedRevision: number | undefined
+): void {
+	if (expectedRevision === undefined) return;
+
+	const key = keys.find((k) => k.id === id);
+	if (!key) {
+		throw new ApiKeyConflictError(
+			'This key was deleted in another tab or window',
+			id
+		);
+	}
+	if (key.revision !== expectedRevision) {
+		throw new ApiKeyConflictError(
+			`"${key.name}" was changed in another tab or window`,
+			id
+		);
+	}
+}
+
+/**
+ * Publish what a save changed, so other views and tabs can update.
+ */
+function publishKeyChanges(previous: ApiKey[], next: ApiKey[]): void {
+	const previousById = new Map(previous.map((key) => [key.id, key]));
+	const nextIds = new Set(next.map((key) => key.id));
+	const created: string[] = [];
+	const updated: string[] = [];
+	const revoked: string[] = [];
+
+	for (const key of next) {
+		const before = previousById.get(key.id);
+		if (!before) {
+			created.push(key.id);
+		} else if (key.revoked && !before.revoked) {
+			revoked.push(key.id);
+		} else if (JSON.stringify(before) !== JSON.stringify(key)) {
+			updated.push(key.id);
+		}
+	}
+	const deleted = previous
+		.filter((key) => !nextIds.has(key.id))
+		.map((key) => key.id);
+
+	if (created.length > 0) {
+		publishSyncEvent({ type: 'key:created', keyIds: created });
+	}
+	if (updated.length > 0) {
+		publishSyncEvent({ type: 'key:updated', keyIds: updated });
+	}
+	if (revoked.length > 0) {
+		publishSyncEvent({ type: 'key:revoked', keyIds: revoked });
+	}
+	if (deleted.length > 0) {
+		publishSyncEvent({ type: 'key:deleted', keyIds: deleted });
 	}
 }
 
 /**
- * Save keys to localStorage.
- * @throws {Error} If localStorage quota is exceeded or storage is unavailable
+ * Save keys to storage. Keys that changed get their revision incremented.
+ *
+ * @param baseRevision - Collection revision the keys were loaded at
+ * @throws {ApiKeyConflictError} If the key list was saved elsewhere since
+ * @throws {Error} If the storage quota is exceeded or storage is unavailable
  */
-function saveKeys(keys: ApiKey[]): void {
+function saveKeys(keys: ApiKey[], baseRevision: number): void {
+	const { revision, keys: previous } = loadKeyCollection();
+	if (revision !== baseRevision) {
+		throw new ApiKeyConflictError(
+			'API keys were changed in another tab or window'
+		);
+	}
+
+	const previousById = new Map(previous.map((key) => [key.id, key]));
+	for (const key of keys) {
+		const before = previousById.get(key.id);
+		if (before && JSON.stringify(before) !== JSON.stringify(key)) {
+			key.revision = (before.revision ?? 1) + 1;
+		}
+	}
+
 	try {
-		localStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+		keysRepository.set({ revision: revision + 1, keys });
 	} catch (error) {
 		console.error('Failed to save keys:', error);
 		throw new Error(
 			'Failed to save API keys. Your browser storage may be full or unavailable.'
 		);
 	}
+	publishKeyChanges(previous, keys);
+}
+
+/**
+ * The stored key list as serialized. It changes with every write, whether
+ * made by this tab, another tab or by hand, so comparing it tells whether
+ * getApiKeys would return something new.
+ */
+export function getApiKeysStorageStamp(): string | null {
+	return keysRepository.getRaw();
+}
+
+/**
+ * Listen for key list writes the storage backend rejected after the fact,
+ * because the keys were changed by another client of the same store, e.g.
+ * through the management API. The rejected change is lost.
+ * @returns Unsubscribe function
+ */
+export function subscribeToRejectedKeyWrites(
+	listener: (error: ApiKeyConflictError) => void
+): () => void {
+	return subscribeToRejectedWrites((error) => {
+		if (error.key === STORAGE_KEY) {
+			listener(
+				new ApiKeyConflictError('API keys were changed by another client')
+			);
+		}
+	});
+}
+
+/**
+ * The stored trash as serialized; changes with every write to it.
+ */
+export function getTrashStorageStamp(): string | null {
+	return trashRepository.getRaw();
 }
 
 /**
  * Get all API keys, sorted by creation date (newest first).
+ * @throws {Error} If the stored keys cannot be read
  */
 export function getApiKeys(): ApiKey[] {
 	const keys = loadKeys();
@@ -76,80 +729,581 @@ export function getApiKeys(): ApiKey[] {
 }
 
 /**
- * Create a new API key.
+ * Create a new API key. Only the hash of the secret is stored;
+ * the plaintext secret is returned once for the caller to reveal.
  *
- * @throws {Error} If name is empty after trimming
+ * @throws {ApiKeyValidationError} If the name breaks a naming rule, no scopes
+ * are granted, the expiry date is not in the future or a restriction entry is
+ * invalid
  */
-export function createApiKey(
+export async function createApiKey(
 	name: string,
-	environment: 'test' | 'production'
-): ApiKey {
-	const trimmedName = name.trim();
-	if (!trimmedName) {
-		throw new Error('API key name cannot be empty');
+	environment: 'test' | 'production',
+	options: CreateApiKeyOptions
+): Promise<RevealedApiKey> {
+	const existingKeys = loadKeys();
+	const trimmedName = validate(() =>
+		normalizeKeyName(name, { environment, existingKeys })
+	);
+
+	const scopes = normalizeGrantedScopes(options.scopes);
+
+	const expiresAt = options.expiresAt ?? null;
+	if (expiresAt !== null) {
+		const expiresAtMs = new Date(expiresAt).getTime();
+		if (Number.isNaN(expiresAtMs) || expiresAtMs <= Date.now()) {
+			throw new ApiKeyValidationError('Expiration date must be in the future');
+		}
 	}
 
-	const keys = loadKeys();
+	const restrictions = normalizeRestrictions(
+		options.restrictions ?? { allowedIps: [], allowedOrigins: [] }
+	);
+
+	const secret = generateApiKey(environment);
+	const storedSecret = await toStoredSecret(secret);
+
+	const { revision, keys } = loadKeyCollection();
 	const newKey: ApiKey = {
 		id: crypto.randomUUID(),
 		name: trimmedName,
-		key: generateApiKey(environment),
+		...storedSecret,
 		environment,
 		createdAt: new Date().toISOString(),
-		revoked: false
+		revoked: false,
+		scopes,
+		expiresAt,
+		...restrictions,
+		revision: 1
 	};
+	newKey.versions = [createVersion(newKey, 1, options.actor ?? null)];
 	keys.push(newKey);
-	saveKeys(keys);
-	return newKey;
+	saveKeys(keys, revision);
+	return { apiKey: newKey, secret };
+}
+
+/**
+ * Mark a loaded key as revoked and record it in the key's version history.
+ */
+function markRevoked(key: ApiKey, actor: string | null, now: Date): void {
+	const versions = getKeyVersions(key);
+	const current = versions[versions.length - 1];
+	if (!current.revokedAt) {
+		current.revokedAt = now.toISOString();
+		current.revokedBy = actor;
+	}
+	key.versions = versions;
+	key.revoked = true;
+	key.previousSecrets = [];
 }
 
 /**
  * Revoke an API key.
  *
+ * @param actor - Who revoked the key, recorded in its version history
+ * @param expectedRevision - Revision of the key the caller showed
+ * @throws {ApiKeyConflictError} If the key changed since expectedRevision
  * @returns True if key was found and revoked, false otherwise
  */
-export function revokeApiKey(id: string): boolean {
-	const keys = loadKeys();
+export function revokeApiKey(
+	id: string,
+	actor: string | null = null,
+	expectedRevision?: number
+): boolean {
+	const { revision, keys } = loadKeyCollection();
+	assertKeyRevision(keys, id, expectedRevision);
 	const key = keys.find((k) => k.id === id);
 	if (key) {
-		key.revoked = true;
-		saveKeys(keys);
+		markRevoked(key, actor, new Date());
+		saveKeys(keys, revision);
 		return true;
 	}
 	return false;
 }
 
+/**
+ * Revoke several API keys in one write. Already revoked keys are skipped.
+ *
+ * @param actor - Who revoked the keys, recorded in their version history
+ * @param expectedRevisions - Revisions of the keys the caller showed, by ID
+ * @throws {ApiKeyConflictError} If one of the keys changed since
+ * @returns Number of keys that were revoked
+ */
+export function revokeApiKeys(
+	ids: string[],
+	actor: string | null = null,
+	expectedRevisions: Record<string, number> = {}
+): number {
+	const idSet = new Set(ids);
+	const { revision, keys } = loadKeyCollection();
+	for (const id of ids) {
+		assertKeyRevision(keys, id, expectedRevisions[id]);
+	}
+	const now = new Date();
+	const targets = keys.filter((k) => idSet.has(k.id) && !k.revoked);
+	if (targets.length === 0) return 0;
+
+	for (const key of targets) {
+		markRevoked(key, actor, now);
+	}
+	saveKeys(keys, revision);
+	return targets.length;
+}
+
 /**
  * Regenerate an API key (creates new key value, keeps same ID and name).
+ * As with creation, the new secret is returned once and only its hash is stored.
+ * Keys with an expiry keep their original lifetime, counted from now.
+ *
+ * With a grace period, the old secret keeps working alongside the new one
+ * until the period ends, so deployed clients can be updated without downtime.
+ * Inactive keys are always rotated immediately.
+ *
+ * @throws {ApiKeyConflictError} If the key changed since options.expectedRevision
  */
-export function regenerateApiKey(id: string): ApiKey | null {
-	const keys = loadKeys();
+export async function regenerateApiKey(
+	id: string,
+	options: RegenerateApiKeyOptions = {}
+): Promise<RevealedApiKey | null> {
+	const secret = generateApiKey(
+		loadKeys().find((k) => k.id === id)?.environment ?? 'test'
+	);
+	const storedSecret = await toStoredSecret(secret);
+
+	const { revision, keys } = loadKeyCollection();
+	assertKeyRevision(keys, id, options.expectedRevision);
 	const key = keys.find((k) => k.id === id);
 	if (!key) return null;
 
-	key.key = generateApiKey(key.environment);
-	key.createdAt = new Date().toISOString();
+	const now = new Date();
+	const gracePeriodMs = options.gracePeriodMs ?? 0;
+	if (gracePeriodMs > 0 && isApiKeyActive(key, now)) {
+		key.previousSecrets = [
+			...getActivePreviousSecrets(key, now),
+			{
+				keyHash: key.keyHash,
+				last4: key.last4,
+				rotatedAt: now.toISOString(),
+				expiresAt: new Date(now.getTime() + gracePeriodMs).toISOString()
+			}
+		];
+	} else {
+		key.previousSecrets = [];
+	}
+
+	if (key.expiresAt) {
+		const lifetime =
+			new Date(key.expiresAt).getTime() - new Date(key.createdAt).getTime();
+		key.expiresAt = new Date(now.getTime() + lifetime).toISOString();
+	}
+
+	const versions = getKeyVersions(key);
+	const previous = versions[versions.length - 1];
+	previous.rotatedAt = now.toISOString();
+	previous.rotatedBy = options.actor ?? null;
+
+	Object.assign(key, storedSecret);
+	key.createdAt = now.toISOString();
 	key.revoked = false;
+	key.versions = [
+		...versions,
+		createVersion(key, previous.version + 1, options.actor ?? null)
+	];
+
+	saveKeys(keys, revision);
+	return { apiKey: key, secret };
+}
+
+/**
+ * Normalize scopes, requiring at least one.
+ *
+ * @throws {ApiKeyValidationError} If no scopes are granted
+ */
+function normalizeGrantedScopes(scopes: ApiKeyScope[]): ApiKeyScope[] {
+	const normalized = normalizeScopes(scopes);
+	if (normalized.length === 0) {
+		throw new ApiKeyValidationError(
+			'API key must be granted at least one scope'
+		);
+	}
+	return normalized;
+}
+
+/**
+ * Validate and normalize IP and origin allowlists.
+ *
+ * @throws {ApiKeyValidationError} If an entry is not a valid CIDR range or origin
+ */
+function normalizeRestrictions(restrictions: KeyRestrictions): KeyRestrictions {
+	return validate(() => ({
+		allowedIps: normalizeIpAllowlist(restrictions.allowedIps),
+		allowedOrigins: normalizeOriginAllowlist(restrictions.allowedOrigins)
+	}));
+}
+
+/**
+ * Check that each limit is either unset or a positive whole number.
+ *
+ * @throws {ApiKeyValidationError} If a limit is not a positive whole number
+ */
+function normalizeLimits(limits: KeyLimits): KeyLimits {
+	for (const [label, value] of [
+		['Rate limit', limits.rateLimitPerMinute],
+		['Monthly quota', limits.monthlyQuota]
+	] as const) {
+		if (value !== null && (!Number.isInteger(value) || value <= 0)) {
+			throw new ApiKeyValidationError(
+				`${label} must be a positive whole number`
+			);
+		}
+	}
+	return {
+		rateLimitPerMinute: limits.rateLimitPerMinute,
+		monthlyQuota: limits.monthlyQuota
+	};
+}
+
+/**
+ * Apply several changes to a key in one write. Every change is checked
+ * before anything is saved, so a rejected update leaves the key as it was.
+ * The revision is checked even if there is nothing to change.
+ *
+ * @throws {ApiKeyValidationError} If one of the changes breaks a rule
+ * @throws {ApiKeyConflictError} If the key changed since expectedRevision
+ * @returns The updated key, or null if it was not found
+ */
+export function updateApiKey(
+	id: string,
+	changes: ApiKeyChanges,
+	expectedRevision?: number
+): ApiKey | null {
+	const { revision, keys } = loadKeyCollection();
+	assertKeyRevision(keys, id, expectedRevision);
+	const key = keys.find((k) => k.id === id);
+	if (!key) return null;
 
-	saveKeys(keys);
+	const { name, description, owner, tags, scopes, restrictions, limits } =
+		changes;
+	const updates: Partial<ApiKey> = {};
+	if (name !== undefined) {
+		updates.name = validate(() =>
+			normalizeKeyName(name, {
+				environment: key.environment,
+				existingKeys: keys,
+				excludeId: id
+			})
+		);
+	}
+	if (description !== undefined || owner !== undefined || tags !== undefined) {
+		Object.assign(
+			updates,
+			validate(() =>
+				normalizeMetadata({
+					description: description ?? key.description ?? '',
+					owner: owner ?? key.owner ?? '',
+					tags: tags ?? key.tags ?? []
+				})
+			)
+		);
+	}
+	if (scopes !== undefined) {
+		updates.scopes = normalizeGrantedScopes(scopes);
+	}
+	if (restrictions !== undefined) {
+		Object.assign(updates, normalizeRestrictions(restrictions));
+	}
+	if (limits !== undefined) {
+		Object.assign(updates, normalizeLimits(limits));
+	}
+	if (Object.keys(updates).length === 0) return key;
+
+	Object.assign(key, updates);
+	saveKeys(keys, revision);
 	return key;
 }
 
 /**
- * Delete an API key permanently.
+ * Replace the scopes granted to an API key.
  *
+ * @throws {ApiKeyValidationError} If no scopes are granted
+ * @throws {ApiKeyConflictError} If the key changed since expectedRevision
+ * @returns The updated key, or null if it was not found
+ */
+export function updateApiKeyScopes(
+	id: string,
+	scopes: ApiKeyScope[],
+	expectedRevision?: number
+): ApiKey | null {
+	return updateApiKey(id, { scopes }, expectedRevision);
+}
+
+/**
+ * Replace the IP and referrer-origin allowlists of an API key.
+ *
+ * @throws {ApiKeyValidationError} If an entry is not a valid CIDR range or origin
+ * @throws {ApiKeyConflictError} If the key changed since expectedRevision
+ * @returns The updated key, or null if it was not found
+ */
+export function updateApiKeyRestrictions(
+	id: string,
+	restrictions: KeyRestrictions,
+	expectedRevision?: number
+): ApiKey | null {
+	return updateApiKey(id, { restrictions }, expectedRevision);
+}
+
+/**
+ * Replace the rate limit and monthly quota of an API key.
+ *
+ * @throws {ApiKeyValidationError} If a limit is set but is not a positive whole number
+ * @throws {ApiKeyConflictError} If the key changed since expectedRevision
+ * @returns The updated key, or null if it was not found
+ */
+export function updateApiKeyLimits(
+	id: string,
+	limits: KeyLimits,
+	expectedRevision?: number
+): ApiKey | null {
+	return updateApiKey(id, { limits }, expectedRevision);
+}
+
+/**
+ * Update a key's name, description, owner and tags.
+ *
+ * @throws {ApiKeyValidationError} If the name breaks a naming rule or the
+ * metadata is invalid
+ * @throws {ApiKeyConflictError} If the key changed since expectedRevision
+ * @returns The updated key, or null if it was not found
+ */
+export function updateApiKeyDetails(
+	id: string,
+	details: ApiKeyDetails,
+	expectedRevision?: number
+): ApiKey | null {
+	return updateApiKey(id, details, expectedRevision);
+}
+
+/**
+ * Reverse a revocation by restoring the key as it was before it was revoked.
+ * Does nothing if the key has since been deleted, reactivated or changed
+ * in any other way.
+ *
+ * @param previous - The key as loaded before revokeApiKey was called
+ * @returns True if the key was restored, false otherwise
+ */
+export function undoRevokeApiKey(previous: ApiKey): boolean {
+	const { revision, keys } = loadKeyCollection();
+	const index = keys.findIndex((k) => k.id === previous.id);
+	if (index === -1 || !keys[index].revoked || previous.revoked) return false;
+	// Revoking is the only change allowed since the snapshot was taken
+	if (keys[index].revision !== (previous.revision ?? 1) + 1) return false;
+
+	keys[index] = { ...previous };
+	saveKeys(keys, revision);
+	return true;
+}
+
+/**
+ * Load the trash from storage, leaving out entries past their retention
+ * period. They are dropped from storage with the next trash write.
+ *
+ * @throws {Error} If the stored trash cannot be read
+ */
+function loadTrash(now: Date = new Date()): TrashedApiKey[] {
+	let stored: TrashedApiKey[] | null;
+	try {
+		stored = trashRepository.read();
+	} catch (error) {
+		console.error('Failed to read trash:', error);
+		throw new Error(
+			`Deleted API keys could not be read: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+	return (stored ?? []).filter((entry) => getTrashPurgeDate(entry) > now);
+}
+
+/**
+ * Save the trash to storage.
+ * @throws {Error} If the storage quota is exceeded or storage is unavailable
+ */
+function saveTrash(trash: TrashedApiKey[]): void {
+	try {
+		trashRepository.set(trash);
+	} catch (error) {
+		console.error('Failed to save trash:', error);
+		throw new Error(
+			'Failed to save deleted API keys. Your browser storage may be full or unavailable.'
+		);
+	}
+	publishSyncEvent({ type: 'trash:changed' });
+}
+
+/**
+ * When a trashed key is purged for good.
+ */
+export function getTrashPurgeDate(entry: TrashedApiKey): Date {
+	return new Date(
+		new Date(entry.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS
+	);
+}
+
+/**
+ * Move keys matching `predicate` from the key list to the trash in one write.
+ *
+ * @param expectedRevisions - Revisions of the keys the caller showed, by ID
+ * @throws {ApiKeyConflictError} If one of those keys changed since
+ * @returns Number of keys moved
+ */
+function moveToTrash(
+	predicate: (key: ApiKey) => boolean,
+	actor: string | null,
+	expectedRevisions: Record<string, number> = {}
+): number {
+	const { revision, keys } = loadKeyCollection();
+	for (const [id, expectedRevision] of Object.entries(expectedRevisions)) {
+		assertKeyRevision(keys, id, expectedRevision);
+	}
+	const deleted = keys.filter(predicate);
+	if (deleted.length === 0) return 0;
+
+	// The key list is saved first: if that fails, nothing has changed. If the
+	// trash cannot be saved after it, the keys are put back.
+	const deletedAt = new Date().toISOString();
+	saveKeys(
+		keys.filter((key) => !predicate(key)),
+		revision
+	);
+	try {
+		saveTrash([
+			...deleted.map((apiKey) => ({ apiKey, deletedAt, deletedBy: actor })),
+			...loadTrash()
+		]);
+	} catch (error) {
+		saveKeys(keys, revision + 1);
+		throw error;
+	}
+	return deleted.length;
+}
+
+/**
+ * Move an API key to the trash. It can be restored for TRASH_RETENTION_DAYS.
+ *
+ * @param actor - Who deleted the key, shown in the trash
+ * @param expectedRevision - Revision of the key the caller showed
+ * @throws {ApiKeyConflictError} If the key changed since expectedRevision
  * @returns True if key was found and deleted, false otherwise
  */
-export function deleteApiKey(id: string): boolean {
-	const keys = loadKeys();
-	const originalLength = keys.length;
-	const filtered = keys.filter((k) => k.id !== id);
+export function deleteApiKey(
+	id: string,
+	actor: string | null = null,
+	expectedRevision?: number
+): boolean {
+	return (
+		moveToTrash(
+			(k) => k.id === id,
+			actor,
+			expectedRevision === undefined ? {} : { [id]: expectedRevision }
+		) > 0
+	);
+}
 
-	if (filtered.length < originalLength) {
-		saveKeys(filtered);
-		return true;
+/**
+ * Move several API keys to the trash in one write.
+ * Only revoked keys are deleted; active keys in `ids` are left untouched.
+ *
+ * @param actor - Who deleted the keys, shown in the trash
+ * @param expectedRevisions - Revisions of the keys the caller showed, by ID
+ * @throws {ApiKeyConflictError} If one of the keys changed since
+ * @returns Number of keys that were deleted
+ */
+export function deleteApiKeys(
+	ids: string[],
+	actor: string | null = null,
+	expectedRevisions: Record<string, number> = {}
+): number {
+	const idSet = new Set(ids);
+	return moveToTrash(
+		(k) => idSet.has(k.id) && canDeleteApiKey(k),
+		actor,
+		expectedRevisions
+	);
+}
+
+/**
+ * Get keys in the trash, most recently deleted first.
+ * Entries past their retention period are left out.
+ *
+ * @throws {Error} If the stored trash cannot be read
+ */
+export function getTrashedApiKeys(now: Date = new Date()): TrashedApiKey[] {
+	return loadTrash(now)
+		.map((entry) => ({ ...entry, apiKey: normalizeKey(entry.apiKey) }))
+		.sort(
+			(a, b) =>
+				new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime()
+		);
+}
+
+/**
+ * Move keys back from the trash to the key list, unchanged.
+ * Names are checked against the current keys, which may have taken them since.
+ *
+ * @throws {Error} If a key's name breaks a naming rule, e.g. is now a duplicate
+ * @returns Number of keys that were restored
+ */
+export function restoreApiKeys(ids: string[]): number {
+	const idSet = new Set(ids);
+	const trash = getTrashedApiKeys();
+	const restored = trash.filter((entry) => idSet.has(entry.apiKey.id));
+	if (restored.length === 0) return 0;
+
+	const { revision, keys } = loadKeyCollection();
+	const next = [...keys];
+	for (const { apiKey } of restored) {
+		const error = getKeyNameError(apiKey.name, {
+			environment: apiKey.environment,
+			existingKeys: next
+		});
+		if (error) {
+			throw new Error(`Cannot restore "${apiKey.name}": ${error}`);
+		}
+		next.push(apiKey);
 	}
-	return false;
+
+	saveKeys(next, revision);
+	try {
+		saveTrash(trash.filter((entry) => !idSet.has(entry.apiKey.id)));
+	} catch (error) {
+		saveKeys(keys, revision + 1);
+		throw error;
+	}
+	return restored.length;
+}
+
+/**
+ * Move a key back from the trash to the key list, unchanged.
+ *
+ * @throws {Error} If the key's name breaks a naming rule, e.g. is now a duplicate
+ * @returns True if the key was in the trash and restored, false otherwise
+ */
+export function restoreApiKey(id: string): boolean {
+	return restoreApiKeys([id]) > 0;
+}
+
+/**
+ * Permanently remove keys from the trash. Omit `ids` to empty the trash.
+ *
+ * @returns Number of keys that were removed
+ */
+export function purgeApiKeys(ids?: string[]): number {
+	const trash = getTrashedApiKeys();
+	const remaining = ids
+		? trash.filter((entry) => !ids.includes(entry.apiKey.id))
+		: [];
+	if (remaining.length < trash.length) {
+		saveTrash(remaining);
+	}
+	return trash.length - remaining.length;
 }
 
 /**
@@ -165,27 +1319,51 @@ export async function copyToClipboard(text: string): Promise<boolean> {
 	}
 }
 
+/**
+ * Hash any plaintext secrets left in storage by older versions of the app.
+ */
+async function migrateStoredSecrets({
+	revision,
+	keys
+}: StoredKeyCollection): Promise<void> {
+	if (!(keys as LegacyApiKey[]).some(isLegacyKey)) return;
+
+	const migrated = await Promise.all(
+		(keys as LegacyApiKey[]).map((key) =>
+			isLegacyKey(key) ? migrateLegacyKey(key) : key
+		)
+	);
+	saveKeys(migrated as ApiKey[], revision);
+	console.log('✅ Migrated stored API keys to hashed secrets');
+}
+
 /**
  * Initialize API keys from static JSON file.
- * Called automatically on app load to provide demo data.
- * Only loads if localStorage is empty.
+ * Called on app load, before the first render, to provide demo data
+ * and migrate keys stored with plaintext secrets.
+ * Only loads demo data if storage is empty.
  */
 export async function initializeApiKeys(): Promise<void> {
 	try {
-		const existingKeys = loadKeys();
-		if (existingKeys.length > 0) {
+		const existing = loadKeyCollection();
+		if (existing.keys.length > 0) {
+			await migrateStoredSecrets(existing);
 			return;
 		}
 
 		const response = await fetch('/data/api-keys.json');
 		if (!response.ok) {
-			console.warn('Failed to fetch api-keys.json, localStorage remains empty');
+			console.warn('Failed to fetch api-keys.json, storage remains empty');
 			return;
 		}
 
 		const data = await response.json();
 		if (data.keys && Array.isArray(data.keys)) {
-			saveKeys(data.keys);
+			const keys = await Promise.all(
+				(data.keys as LegacyApiKey[]).map(migrateLegacyKey)
+			);
+			// Rejected if another tab seeded the keys while this one was fetching
+			saveKeys(keys.map(normalizeKey), existing.revision);
 			console.log('✅ Initialized API keys from static data');
 		}
 	} catch (error) {
@@ -28,3 +28,38 @@ export function formatRelativeTime(dateString: string): string {
 
 	return 'Just now';
 }
+
+/**
+ * Format a future date string as time remaining (e.g., "in 3 hours")
+ */
+export function formatTimeUntil(dateString: string): string {
+	const seconds = Math.floor(
+		(new Date(dateString).getTime() - Date.now()) / 1000
+	);
+
+	const intervals = {
+		day: 86400,
+		hour: 3600,
+		minute: 60
+	};
+
+	for (const [unit, secondsInUnit] of Object.entries(intervals)) {
+		const interval = Math.floor(seconds / secondsInUnit);
+		if (interval >= 1) {
+			return `in ${interval} ${unit}${interval > 1 ? 's' : ''}`;
+		}
+	}
+
+	return 'in less than a minute';
+}
+
+/**
+ * Format a date string as a short calendar date (e.g., "Mar 3, 2026")
+ */
+export function formatDate(dateString: string): string {
+	return new Date(dateString).toLocaleDateString('en-US', {
+		month: 'short',
+		day: 'numeric',
+		year: 'numeric'
+	});
+}
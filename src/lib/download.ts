@@ -0,0 +1,25 @@
+/**
+ * Browser file download utilities
+ */
+
+/**
+ * Trigger a download of in-memory content as a file.
+ * @param filename - Name suggested to the browser
+ * @param content - File contents
+ * @param type - MIME type of the file
+ */
+export function downloadFile(
+	filename: string,
+	content: string,
+	type = 'text/plain'
+): void {
+	const blob = new Blob([content], { type });
+	const url = URL.createObjectURL(blob);
+	const a = document.createElement('a');
+	a.href = url;
+	a.download = filename;
+	document.body.appendChild(a);
+	a.click();
+	document.body.removeChild(a);
+	URL.revokeObjectURL(url);
+}
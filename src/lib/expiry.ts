@@ -0,0 +1,62 @@
+/**
+ * Expiration presets for API keys.
+ */
+
+export type ExpiryOption = '30d' | '90d' | '365d' | 'custom' | 'never';
+
+export type ExpiryChoice = {
+	option: ExpiryOption;
+	/** YYYY-MM-DD, only used when option is 'custom' */
+	customDate: string;
+};
+
+export const EXPIRY_OPTIONS: {
+	value: ExpiryOption;
+	label: string;
+	days?: number;
+}[] = [
+	{ value: '30d', label: '30 days', days: 30 },
+	{ value: '90d', label: '90 days', days: 90 },
+	{ value: '365d', label: '1 year', days: 365 },
+	{ value: 'custom', label: 'Custom' },
+	{ value: 'never', label: 'Never' }
+];
+
+export const DEFAULT_EXPIRY_CHOICE: ExpiryChoice = {
+	option: '90d',
+	customDate: ''
+};
+
+/**
+ * Format a Date as YYYY-MM-DD in local time (value format for date inputs).
+ */
+export function toDateInputValue(date: Date): string {
+	const year = date.getFullYear();
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${year}-${month}-${day}`;
+}
+
+/**
+ * Resolve an expiry choice to an ISO timestamp, or null for "never".
+ * Custom dates expire at the end of the selected local day.
+ *
+ * @throws {Error} If a custom expiry is chosen without a date
+ */
+export function resolveExpiry(
+	choice: ExpiryChoice,
+	now: Date = new Date()
+): string | null {
+	if (choice.option === 'never') return null;
+
+	if (choice.option === 'custom') {
+		if (!choice.customDate) {
+			throw new Error('Pick an expiration date');
+		}
+		const [year, month, day] = choice.customDate.split('-').map(Number);
+		return new Date(year, month - 1, day, 23, 59, 59, 999).toISOString();
+	}
+
+	const days = EXPIRY_OPTIONS.find((o) => o.value === choice.option)?.days ?? 0;
+	return new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
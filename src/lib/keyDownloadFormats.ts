@@ -0,0 +1,192 @@
+/**
+ * File formats a revealed key can be downloaded in, shared by the create and
+ * regenerate dialogs so developers don't have to retype keys into config files.
+ */
+
+export type KeyDownloadFormat =
+	| 'txt'
+	| 'env'
+	| 'json'
+	| 'shell'
+	| 'kubernetes'
+	| 'docker';
+
+/**
+ * A key as shown once after creation or rotation.
+ */
+export type RevealedKeyDetails = {
+	name: string;
+	environment: 'test' | 'production';
+	key: string;
+	event: 'created' | 'regenerated';
+	/** ISO timestamp of the creation or rotation */
+	timestamp: string;
+	/** When the replaced secret stops working, for rotations with a grace period */
+	oldKeyExpiresAt?: string | null;
+};
+
+export type KeyDownloadFile = {
+	filename: string;
+	content: string;
+	mimeType: string;
+};
+
+export const KEY_DOWNLOAD_FORMATS: Record<
+	KeyDownloadFormat,
+	{ label: string; usesVariableName: boolean }
+> = {
+	txt: { label: 'Text note (.txt)', usesVariableName: false },
+	env: { label: 'Env file (.env)', usesVariableName: true },
+	json: { label: 'JSON', usesVariableName: true },
+	shell: { label: 'Shell export', usesVariableName: true },
+	kubernetes: { label: 'Kubernetes Secret (YAML)', usesVariableName: true },
+	docker: { label: 'Docker secret file', usesVariableName: false }
+};
+
+export const DEFAULT_VARIABLE_NAME = 'API_KEY';
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check an environment variable name.
+ *
+ * @returns An error message, or null if the name is valid
+ */
+export function getVariableNameError(name: string): string | null {
+	if (!name) return 'Variable name cannot be empty';
+	if (!VARIABLE_NAME_PATTERN.test(name)) {
+		return 'Use letters, numbers and underscores, not starting with a number';
+	}
+	return null;
+}
+
+/**
+ * Key name as a filename-friendly slug, e.g. "Production Server Key" -> "Production_Server_Key".
+ */
+function toFileSlug(name: string): string {
+	return name.replace(/\s+/g, '_');
+}
+
+/**
+ * Key name as a Kubernetes object name (lowercase RFC 1123 subdomain).
+ */
+function toKubernetesName(name: string): string {
+	const slug = name
+		.toLowerCase()
+		.replace(/[^a-z0-9.-]+/g, '-')
+		.replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, '')
+		.slice(0, 253);
+	return slug || 'api-key';
+}
+
+function formatTextNote(details: RevealedKeyDetails): string {
+	const eventLabel = details.event === 'created' ? 'Created' : 'Regenerated';
+	const rotationNote =
+		details.event === 'regenerated'
+			? `• ${
+					details.oldKeyExpiresAt
+						? `The old key remains valid until ${details.oldKeyExpiresAt}`
+						: 'The old key has been invalidated'
+				}\n`
+			: '';
+
+	return `API Key: ${details.name}
+Environment: ${details.environment}
+Key: ${details.key}
+${eventLabel}: ${details.timestamp}
+
+⚠️ SECURITY WARNING ⚠️
+• Keep this key secure and never share it publicly
+• Store this file in a secure location (e.g., password manager)
+• Never commit this file to version control
+• Delete this file once you've stored the key securely
+${rotationNote}`;
+}
+
+function formatKubernetesSecret(
+	details: RevealedKeyDetails,
+	variableName: string
+): string {
+	return `apiVersion: v1
+kind: Secret
+metadata:
+  name: ${toKubernetesName(details.name)}
+  labels:
+    environment: ${details.environment}
+  annotations:
+    api-key/${details.event}-at: "${details.timestamp}"
+type: Opaque
+stringData:
+  ${variableName}: "${details.key}"
+`;
+}
+
+/**
+ * Render a revealed key as a downloadable file.
+ *
+ * @param variableName - Environment variable / secret entry name, for formats that use one
+ * @throws {Error} If the variable name is invalid for a format that uses it
+ */
+export function formatKeyDownload(
+	format: KeyDownloadFormat,
+	details: RevealedKeyDetails,
+	variableName: string = DEFAULT_VARIABLE_NAME
+): KeyDownloadFile {
+	if (KEY_DOWNLOAD_FORMATS[format].usesVariableName) {
+		const error = getVariableNameError(variableName);
+		if (error) throw new Error(error);
+	}
+
+	const slug = toFileSlug(details.name);
+	const suffix = details.event === 'regenerated' ? '_regenerated' : '';
+	const comment = `# ${details.name} (${details.environment}), ${details.event} ${details.timestamp}`;
+
+	switch (format) {
+		case 'txt':
+			return {
+				filename: `${slug}${suffix}_${Date.now()}.txt`,
+				content: formatTextNote(details),
+				mimeType: 'text/plain'
+			};
+		case 'env':
+			return {
+				filename: `${slug}${suffix}.env`,
+				content: `${comment}\n${variableName}=${details.key}\n`,
+				mimeType: 'text/plain'
+			};
+		case 'json':
+			return {
+				filename: `${slug}${suffix}.json`,
+				content: `${JSON.stringify(
+					{
+						name: details.name,
+						environment: details.environment,
+						[variableName]: details.key,
+						[`${details.event}At`]: details.timestamp
+					},
+					null,
+					2
+				)}\n`,
+				mimeType: 'application/json'
+			};
+		case 'shell':
+			return {
+				filename: `${slug}${suffix}.sh`,
+				content: `${comment}\nexport ${variableName}='${details.key}'\n`,
+				mimeType: 'text/x-shellscript'
+			};
+		case 'kubernetes':
+			return {
+				filename: `${toKubernetesName(details.name)}-secret.yaml`,
+				content: formatKubernetesSecret(details, variableName),
+				mimeType: 'application/yaml'
+			};
+		case 'docker':
+			// Docker secrets are read verbatim, so the file holds only the key
+			return {
+				filename: `${slug}${suffix}.secret`,
+				content: details.key,
+				mimeType: 'text/plain'
+			};
+	}
+}
@@ -0,0 +1,205 @@
+/**
+ * Passphrase-encrypted key files for handing a revealed key to a teammate.
+ *
+ * The key is encrypted with AES-256-GCM under a key derived from the
+ * passphrase with PBKDF2-SHA-256 (WebCrypto). Encryption and decryption both
+ * happen in the browser; the passphrase is never stored.
+ */
+
+import type { RevealedKeyDetails } from './keyDownloadFormats';
+
+export const ENCRYPTED_KEY_FILE_FORMAT = 'api-key-dashboard/encrypted-key';
+export const ENCRYPTED_KEY_FILE_VERSION = 1;
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+/** OWASP's recommendation for PBKDF2-HMAC-SHA256 */
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export type EncryptedKeyFile = {
+	format: typeof ENCRYPTED_KEY_FILE_FORMAT;
+	version: number;
+	kdf: {
+		name: 'PBKDF2';
+		hash: 'SHA-256';
+		iterations: number;
+		/** Base64 */
+		salt: string;
+	};
+	cipher: {
+		name: 'AES-GCM';
+		/** Base64 */
+		iv: string;
+	};
+	/** Base64 AES-GCM output (ciphertext followed by the auth tag) */
+	ciphertext: string;
+};
+
+function toBase64(bytes: Uint8Array): string {
+	let binary = '';
+	for (const byte of bytes) binary += String.fromCharCode(byte);
+	return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+	const binary = atob(value);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+	return bytes;
+}
+
+async function deriveKey(
+	passphrase: string,
+	salt: Uint8Array<ArrayBuffer>,
+	iterations: number
+): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey(
+		'raw',
+		new TextEncoder().encode(passphrase),
+		'PBKDF2',
+		false,
+		['deriveKey']
+	);
+	return crypto.subtle.deriveKey(
+		{ name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+		material,
+		{ name: 'AES-GCM', length: 256 },
+		false,
+		['encrypt', 'decrypt']
+	);
+}
+
+/**
+ * Check a passphrase chosen for encryption.
+ *
+ * @returns An error message, or null if the passphrase is acceptable
+ */
+export function getPassphraseError(passphrase: string): string | null {
+	if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+		return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`;
+	}
+	return null;
+}
+
+/**
+ * Encrypt a revealed key with a passphrase.
+ *
+ * @returns Contents of the encrypted key file (JSON)
+ * @throws {Error} If the passphrase is too short
+ */
+export async function encryptKeyFile(
+	details: RevealedKeyDetails,
+	passphrase: string
+): Promise<string> {
+	const passphraseError = getPassphraseError(passphrase);
+	if (passphraseError) {
+		throw new Error(passphraseError);
+	}
+
+	const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+	const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+	const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+	const ciphertext = await crypto.subtle.encrypt(
+		{ name: 'AES-GCM', iv },
+		key,
+		new TextEncoder().encode(JSON.stringify(details))
+	);
+
+	const file: EncryptedKeyFile = {
+		format: ENCRYPTED_KEY_FILE_FORMAT,
+		version: ENCRYPTED_KEY_FILE_VERSION,
+		kdf: {
+			name: 'PBKDF2',
+			hash: 'SHA-256',
+			iterations: PBKDF2_ITERATIONS,
+			salt: toBase64(salt)
+		},
+		cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+		ciphertext: toBase64(new Uint8Array(ciphertext))
+	};
+	return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+/**
+ * Parse and sanity-check the envelope of an encrypted key file.
+ *
+ * @throws {Error} If the content is not an encrypted key file this app can read
+ */
+function parseEncryptedKeyFile(content: string): EncryptedKeyFile {
+	let file: Partial<EncryptedKeyFile>;
+	try {
+		file = JSON.parse(content);
+	} catch {
+		throw new Error('This is not an encrypted key file');
+	}
+	if (file?.format !== ENCRYPTED_KEY_FILE_FORMAT) {
+		throw new Error('This is not an encrypted key file');
+	}
+	if (file.version !== ENCRYPTED_KEY_FILE_VERSION) {
+		throw new Error(
+			`Unsupported encrypted key file version ${String(file.version)}`
+		);
+	}
+	if (
+		typeof file.kdf?.salt !== 'string' ||
+		typeof file.kdf.iterations !== 'number' ||
+		typeof file.cipher?.iv !== 'string' ||
+		typeof file.ciphertext !== 'string'
+	) {
+		throw new Error('The encrypted key file is incomplete or corrupted');
+	}
+	// Version 1 files always use this count; any other value was edited in,
+	// either to make the passphrase cheap to guess or to hang the browser
+	if (file.kdf.iterations !== PBKDF2_ITERATIONS) {
+		throw new Error(
+			`Unsupported key derivation setting (${file.kdf.iterations} iterations)`
+		);
+	}
+	return file as EncryptedKeyFile;
+}
+
+/**
+ * Decrypt an encrypted key file with its passphrase.
+ *
+ * @throws {Error} If the file is not an encrypted key file, the passphrase is
+ * wrong or the file was modified
+ */
+export async function decryptKeyFile(
+	content: string,
+	passphrase: string
+): Promise<RevealedKeyDetails> {
+	const file = parseEncryptedKeyFile(content);
+
+	let plaintext: ArrayBuffer;
+	try {
+		const key = await deriveKey(
+			passphrase,
+			fromBase64(file.kdf.salt),
+			file.kdf.iterations
+		);
+		plaintext = await crypto.subtle.decrypt(
+			{ name: 'AES-GCM', iv: fromBase64(file.cipher.iv) },
+			key,
+			fromBase64(file.ciphertext)
+		);
+	} catch {
+		// AES-GCM cannot tell a wrong passphrase from a tampered file
+		throw new Error('Wrong passphrase, or the file has been modified');
+	}
+
+	const details = JSON.parse(
+		new TextDecoder().decode(plaintext)
+	) as RevealedKeyDetails;
+	if (typeof details.key !== 'string' || typeof details.name !== 'string') {
+		throw new Error('The encrypted key file is incomplete or corrupted');
+	}
+	return details;
+}
+
+/**
+ * Suggested filename for an encrypted key file.
+ */
+export function getEncryptedKeyFilename(details: RevealedKeyDetails): string {
+	return `${details.name.replace(/\s+/g, '_')}.encrypted-key.json`;
+}
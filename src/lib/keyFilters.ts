@@ -0,0 +1,95 @@
+import {
+	type ApiKey,
+	type ApiKeyStatus,
+	getApiKeyStatus,
+	isApiKeyActive
+} from './apiKeys';
+
+/**
+ * Structured filters for the API keys list, combined with the free-text search.
+ * Every set filter must match; tags match when the key has all selected tags.
+ */
+export type KeyFilters = {
+	status: ApiKeyStatus | null;
+	owner: string | null;
+	tags: string[];
+};
+
+export const EMPTY_KEY_FILTERS: KeyFilters = {
+	status: null,
+	owner: null,
+	tags: []
+};
+
+export const STATUS_FILTER_LABELS: Record<ApiKeyStatus, string> = {
+	active: 'Active',
+	expiring: 'Expiring soon',
+	expired: 'Expired',
+	revoked: 'Revoked'
+};
+
+/**
+ * True if any structured filter is set.
+ */
+export function hasKeyFilters(filters: KeyFilters): boolean {
+	return (
+		filters.status !== null || filters.owner !== null || filters.tags.length > 0
+	);
+}
+
+/**
+ * Free-text search against name, description, owner, tags, key prefix and last four characters.
+ */
+export function matchesSearch(key: ApiKey, query: string): boolean {
+	const normalized = query.trim().toLowerCase();
+	if (!normalized) return true;
+
+	return [
+		key.name,
+		key.description ?? '',
+		key.owner ?? '',
+		key.prefix,
+		key.last4,
+		...(key.tags ?? [])
+	].some((value) => value.toLowerCase().includes(normalized));
+}
+
+/**
+ * Check a key against the structured filters.
+ */
+export function matchesKeyFilters(
+	key: ApiKey,
+	filters: KeyFilters,
+	now: Date = new Date()
+): boolean {
+	if (filters.status === 'active') {
+		// Keys that expire soon still work, so they count as active
+		if (!isApiKeyActive(key, now)) return false;
+	} else if (filters.status && getApiKeyStatus(key, now) !== filters.status) {
+		return false;
+	}
+	if (filters.owner !== null && (key.owner ?? '') !== filters.owner) {
+		return false;
+	}
+	const tags = key.tags ?? [];
+	return filters.tags.every((tag) => tags.includes(tag));
+}
+
+/**
+ * Distinct owners and tags across keys, sorted, for building filter menus.
+ */
+export function collectFilterOptions(keys: ApiKey[]): {
+	owners: string[];
+	tags: string[];
+} {
+	const owners = new Set<string>();
+	const tags = new Set<string>();
+	for (const key of keys) {
+		if (key.owner) owners.add(key.owner);
+		for (const tag of key.tags ?? []) tags.add(tag);
+	}
+	return {
+		owners: [...owners].sort((a, b) => a.localeCompare(b)),
+		tags: [...tags].sort()
+	};
+}
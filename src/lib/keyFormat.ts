@@ -0,0 +1,148 @@
+/**
+ * API key format: `<prefix>_<32 hex chars><6 char checksum>`.
+ *
+ * The checksum is the CRC32 of the random part, encoded in base62 and padded
+ * to six characters (as in GitHub's token format). It lets a key be checked
+ * for typos offline, without looking up its hash.
+ */
+
+export const KEY_PREFIXES = {
+	test: 'sk_demo',
+	production: 'sk_sandbox'
+} as const;
+
+const RANDOM_LENGTH = 32;
+const CHECKSUM_LENGTH = 6;
+const BASE62_ALPHABET =
+	'0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/**
+ * - valid: the checksum matches the random part
+ * - invalid: the key was mistyped or truncated
+ * - missing: the key predates checksums and cannot be verified offline
+ */
+export type ChecksumState = 'valid' | 'invalid' | 'missing';
+
+export type ApiKeyFormatCheck = {
+	/** True if the prefix is known, the key is well formed and the checksum does not fail */
+	valid: boolean;
+	prefix: string | null;
+	environment: 'test' | 'production' | null;
+	checksum: ChecksumState;
+	/** Human readable problems, empty when the key is valid */
+	problems: string[];
+};
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+	if (crcTable) return crcTable;
+	crcTable = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		crcTable[n] = c >>> 0;
+	}
+	return crcTable;
+}
+
+/**
+ * CRC32 (IEEE) of a string's UTF-8 bytes.
+ */
+export function crc32(input: string): number {
+	const table = getCrcTable();
+	let crc = 0xffffffff;
+	for (const byte of new TextEncoder().encode(input)) {
+		crc = table[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode a non-negative integer in base62, left-padded with zeros to `width`.
+ */
+function toBase62(value: number, width: number): string {
+	let encoded = '';
+	let remaining = value;
+	do {
+		encoded = BASE62_ALPHABET[remaining % 62] + encoded;
+		remaining = Math.floor(remaining / 62);
+	} while (remaining > 0);
+	return encoded.padStart(width, '0');
+}
+
+/**
+ * Checksum suffix for the random part of a key.
+ */
+export function computeKeyChecksum(random: string): string {
+	return toBase62(crc32(random), CHECKSUM_LENGTH);
+}
+
+/**
+ * Build a key from its environment and random part, appending the checksum.
+ */
+export function formatApiKey(
+	environment: 'test' | 'production',
+	random: string
+): string {
+	return `${KEY_PREFIXES[environment]}_${random}${computeKeyChecksum(random)}`;
+}
+
+function getEnvironmentForPrefix(prefix: string): 'test' | 'production' | null {
+	if (prefix === KEY_PREFIXES.test) return 'test';
+	if (prefix === KEY_PREFIXES.production) return 'production';
+	return null;
+}
+
+/**
+ * Check a pasted key's structure offline: whether its prefix is known, which
+ * environment it belongs to and whether its checksum matches.
+ * This does not tell whether the key exists or is active.
+ */
+export function validateApiKeyFormat(key: string): ApiKeyFormatCheck {
+	const trimmed = key.trim();
+	const separator = trimmed.lastIndexOf('_');
+	const prefix = separator > 0 ? trimmed.slice(0, separator) : null;
+	const body = separator > 0 ? trimmed.slice(separator + 1) : trimmed;
+	const environment = prefix ? getEnvironmentForPrefix(prefix) : null;
+	const problems: string[] = [];
+
+	if (!prefix) {
+		problems.push('Missing prefix; keys start with sk_demo_ or sk_sandbox_');
+	} else if (!environment) {
+		problems.push(
+			`Unknown prefix "${prefix}"; expected ${KEY_PREFIXES.test} or ${KEY_PREFIXES.production}`
+		);
+	}
+
+	const random = body.slice(0, RANDOM_LENGTH);
+	const wellFormed =
+		/^[0-9a-f]+$/.test(random) && random.length === RANDOM_LENGTH;
+	let checksum: ChecksumState = 'invalid';
+
+	if (!wellFormed) {
+		problems.push(
+			`Expected ${RANDOM_LENGTH} lowercase hex characters after the prefix`
+		);
+	} else if (body.length === RANDOM_LENGTH) {
+		checksum = 'missing';
+	} else if (body.length !== RANDOM_LENGTH + CHECKSUM_LENGTH) {
+		problems.push(
+			`Key is ${body.length - RANDOM_LENGTH - CHECKSUM_LENGTH > 0 ? 'too long' : 'truncated'}`
+		);
+	} else if (body.slice(RANDOM_LENGTH) === computeKeyChecksum(random)) {
+		checksum = 'valid';
+	} else {
+		problems.push('Checksum does not match; the key was probably mistyped');
+	}
+
+	return {
+		valid: problems.length === 0,
+		prefix,
+		environment,
+		checksum,
+		problems
+	};
+}
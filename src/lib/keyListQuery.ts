@@ -0,0 +1,189 @@
+/**
+ * Sorting, paging and URL query encoding for the API keys list.
+ */
+
+import { type ApiKey, type ApiKeyStatus, getApiKeyStatus } from './apiKeys';
+import type { KeyFilters } from './keyFilters';
+import type { KeyUsageSummary } from './usage';
+
+export type KeySortField = 'name' | 'created' | 'lastUsed' | 'status';
+export type SortDirection = 'asc' | 'desc';
+
+export type KeySort = {
+	field: KeySortField;
+	direction: SortDirection;
+};
+
+export const KEY_SORT_LABELS: Record<KeySortField, string> = {
+	name: 'Name',
+	created: 'Created',
+	lastUsed: 'Last used',
+	status: 'Status'
+};
+
+export const DEFAULT_KEY_SORT: KeySort = {
+	field: 'created',
+	direction: 'desc'
+};
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50] as const;
+export const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Everything needed to reproduce a view of the keys list from a shared link.
+ */
+export type KeyListQuery = {
+	search: string;
+	filters: KeyFilters;
+	sort: KeySort;
+	/** 1-based page number */
+	page: number;
+	pageSize: number;
+};
+
+const STATUS_ORDER: Record<ApiKeyStatus, number> = {
+	active: 0,
+	expiring: 1,
+	expired: 2,
+	revoked: 3
+};
+
+const STATUSES = Object.keys(STATUS_ORDER) as ApiKeyStatus[];
+const SORT_FIELDS = Object.keys(KEY_SORT_LABELS) as KeySortField[];
+
+/**
+ * Direction a column sorts in when first selected: text and status ascending,
+ * dates newest first.
+ */
+export function getDefaultSortDirection(field: KeySortField): SortDirection {
+	return field === 'name' || field === 'status' ? 'asc' : 'desc';
+}
+
+/**
+ * Sort keys by a column. Keys that were never used sort as the oldest, so
+ * ascending "last used" lists dead keys first. Ties keep the newest key first.
+ */
+export function sortKeys(
+	keys: ApiKey[],
+	sort: KeySort,
+	usageByKey: Map<string, KeyUsageSummary>,
+	now: Date = new Date()
+): ApiKey[] {
+	const lastUsed = (key: ApiKey) => {
+		const usage = usageByKey.get(key.id);
+		return usage ? new Date(usage.lastUsedAt).getTime() : 0;
+	};
+	const created = (key: ApiKey) => new Date(key.createdAt).getTime();
+
+	const compare = (a: ApiKey, b: ApiKey): number => {
+		switch (sort.field) {
+			case 'name':
+				return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+			case 'created':
+				return created(a) - created(b);
+			case 'lastUsed':
+				return lastUsed(a) - lastUsed(b);
+			case 'status':
+				return (
+					STATUS_ORDER[getApiKeyStatus(a, now)] -
+					STATUS_ORDER[getApiKeyStatus(b, now)]
+				);
+		}
+	};
+
+	const sign = sort.direction === 'asc' ? 1 : -1;
+	return [...keys].sort(
+		(a, b) => sign * compare(a, b) || created(b) - created(a)
+	);
+}
+
+/**
+ * Number of pages needed to show `total` items; at least one.
+ */
+export function getPageCount(total: number, pageSize: number): number {
+	return Math.max(1, Math.ceil(total / pageSize));
+}
+
+/**
+ * Items on a 1-based page. Pages past the end are clamped to the last page.
+ */
+export function paginate<T>(
+	items: T[],
+	page: number,
+	pageSize: number
+): { items: T[]; page: number; pageCount: number } {
+	const pageCount = getPageCount(items.length, pageSize);
+	const current = Math.min(Math.max(page, 1), pageCount);
+	const start = (current - 1) * pageSize;
+	return {
+		items: items.slice(start, start + pageSize),
+		page: current,
+		pageCount
+	};
+}
+
+function parsePositiveInt(value: string | null): number | null {
+	if (!value || !/^\d+$/.test(value)) return null;
+	const n = Number(value);
+	return n > 0 ? n : null;
+}
+
+/**
+ * Read the list state from URL query parameters. Unknown or malformed values
+ * fall back to defaults, so hand-edited links never break the page.
+ */
+export function parseKeyListQuery(params: URLSearchParams): KeyListQuery {
+	const field = params.get('sort') as KeySortField | null;
+	const sortField = field && SORT_FIELDS.includes(field) ? field : null;
+	const direction = params.get('dir');
+
+	const status = params.get('status') as ApiKeyStatus | null;
+	const pageSize = parsePositiveInt(params.get('size'));
+
+	return {
+		search: params.get('q') ?? '',
+		filters: {
+			status: status && STATUSES.includes(status) ? status : null,
+			owner: params.get('owner'),
+			tags: params.getAll('tag')
+		},
+		sort: sortField
+			? {
+					field: sortField,
+					direction:
+						direction === 'asc' || direction === 'desc'
+							? direction
+							: getDefaultSortDirection(sortField)
+				}
+			: DEFAULT_KEY_SORT,
+		page: parsePositiveInt(params.get('page')) ?? 1,
+		pageSize:
+			pageSize && (PAGE_SIZE_OPTIONS as readonly number[]).includes(pageSize)
+				? pageSize
+				: DEFAULT_PAGE_SIZE
+	};
+}
+
+/**
+ * Encode the list state as URL query parameters, leaving out defaults to keep
+ * links short.
+ */
+export function toKeyListSearchParams(query: KeyListQuery): URLSearchParams {
+	const params = new URLSearchParams();
+	if (query.search) params.set('q', query.search);
+	if (query.filters.status) params.set('status', query.filters.status);
+	if (query.filters.owner !== null) params.set('owner', query.filters.owner);
+	for (const tag of query.filters.tags) params.append('tag', tag);
+	if (
+		query.sort.field !== DEFAULT_KEY_SORT.field ||
+		query.sort.direction !== DEFAULT_KEY_SORT.direction
+	) {
+		params.set('sort', query.sort.field);
+		params.set('dir', query.sort.direction);
+	}
+	if (query.pageSize !== DEFAULT_PAGE_SIZE) {
+		params.set('size', String(query.pageSize));
+	}
+	if (query.page > 1) params.set('page', String(query.page));
+	return params;
+}
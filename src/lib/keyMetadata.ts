@@ -0,0 +1,62 @@
+/**
+ * Descriptive metadata attached to an API key: description, owner and tags.
+ */
+
+export const MAX_DESCRIPTION_LENGTH = 500;
+export const MAX_OWNER_LENGTH = 100;
+export const MAX_TAGS = 20;
+
+/**
+ * Tags are lowercase and may use ":" to namespace, e.g. "service:billing".
+ */
+const TAG_PATTERN = /^[a-z0-9][a-z0-9:._/-]{0,49}$/;
+
+export type KeyMetadata = {
+	description: string;
+	owner: string;
+	tags: string[];
+};
+
+/**
+ * Split free-form input ("service:billing, team:mobile") into tags.
+ * Tags are trimmed, lowercased and de-duplicated, keeping their order.
+ */
+export function parseTags(input: string): string[] {
+	const tags = input
+		.split(/[\s,]+/)
+		.map((tag) => tag.trim().toLowerCase())
+		.filter(Boolean);
+	return [...new Set(tags)];
+}
+
+/**
+ * Validate and normalize key metadata before it is stored.
+ *
+ * @throws {Error} If a field is too long or a tag has an invalid format
+ */
+export function normalizeMetadata(metadata: KeyMetadata): KeyMetadata {
+	const description = metadata.description.trim();
+	if (description.length > MAX_DESCRIPTION_LENGTH) {
+		throw new Error(
+			`Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`
+		);
+	}
+
+	const owner = metadata.owner.trim();
+	if (owner.length > MAX_OWNER_LENGTH) {
+		throw new Error(`Owner must be at most ${MAX_OWNER_LENGTH} characters`);
+	}
+
+	const tags = parseTags(metadata.tags.join(','));
+	if (tags.length > MAX_TAGS) {
+		throw new Error(`A key can have at most ${MAX_TAGS} tags`);
+	}
+	const invalidTag = tags.find((tag) => !TAG_PATTERN.test(tag));
+	if (invalidTag) {
+		throw new Error(
+			`Invalid tag "${invalidTag}". Use letters, numbers and : . _ / - (max 50 characters)`
+		);
+	}
+
+	return { description, owner, tags };
+}
@@ -0,0 +1,95 @@
+/**
+ * Naming rules for API keys, shared by create, edit and import.
+ */
+
+export const MAX_NAME_LENGTH = 64;
+
+/**
+ * Names start with a letter or number and may contain spaces and - _ . ( ) : / '
+ */
+const NAME_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} \-_.():/']*$/u;
+
+/**
+ * Names that read like system values and would be confusing in logs and exports.
+ * Compared case-insensitively against the whole name.
+ */
+export const RESERVED_KEY_NAMES = [
+	'admin',
+	'default',
+	'null',
+	'root',
+	'system',
+	'undefined'
+] as const;
+
+/**
+ * Keys a new or edited name is checked against for uniqueness.
+ */
+export type KeyNameContext = {
+	environment: 'test' | 'production';
+	existingKeys: { id: string; name: string; environment: string }[];
+	/** Key being renamed, which may keep its own name */
+	excludeId?: string;
+};
+
+/**
+ * Trim a name and collapse runs of whitespace to single spaces.
+ */
+export function cleanKeyName(name: string): string {
+	return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Check a name against the naming rules.
+ * Names are unique per environment, ignoring case.
+ *
+ * @returns An error message, or null if the name is valid
+ */
+export function getKeyNameError(
+	name: string,
+	context: KeyNameContext
+): string | null {
+	const cleaned = cleanKeyName(name);
+	if (!cleaned) {
+		return 'API key name cannot be empty';
+	}
+	if (cleaned.length > MAX_NAME_LENGTH) {
+		return `Name must be at most ${MAX_NAME_LENGTH} characters`;
+	}
+	if (!NAME_PATTERN.test(cleaned)) {
+		return "Name must start with a letter or number and may only contain letters, numbers, spaces and - _ . ( ) : / '";
+	}
+
+	const lower = cleaned.toLowerCase();
+	if ((RESERVED_KEY_NAMES as readonly string[]).includes(lower)) {
+		return `"${cleaned}" is a reserved name`;
+	}
+
+	const duplicate = context.existingKeys.some(
+		(key) =>
+			key.environment === context.environment &&
+			key.id !== context.excludeId &&
+			cleanKeyName(key.name).toLowerCase() === lower
+	);
+	if (duplicate) {
+		return `A key named "${cleaned}" already exists in ${context.environment} mode`;
+	}
+
+	return null;
+}
+
+/**
+ * Validate a name and return it cleaned for storage.
+ *
+ * @throws {Error} If the name breaks a naming rule
+ */
+export function normalizeKeyName(
+	name: string,
+	context: KeyNameContext
+): string {
+	const error = getKeyNameError(name, context);
+	if (error) {
+		throw new Error(error);
+	}
+	return cleanKeyName(name);
+}
@@ -0,0 +1,97 @@
+/**
+ * Find API keys in pasted text (logs, config files, chat messages) and match
+ * them against stored keys by hash, to answer "is this live and which one is it".
+ */
+
+import {
+	type ApiKey,
+	getActivePreviousSecrets,
+	hashApiKey,
+	isApiKeyActive,
+	maskApiKey
+} from './apiKeys';
+import { type ApiKeyFormatCheck, validateApiKeyFormat } from './keyFormat';
+
+/** Largest file accepted by the scanner, in bytes */
+export const MAX_SCAN_FILE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Both key prefixes, followed by the random part and an optional checksum.
+ * Keys embedded in longer identifiers (e.g. "xsk_demo_...") are ignored.
+ */
+const KEY_PATTERN =
+	/(?<![\w-])sk_(?:demo|sandbox)_[0-9a-f]{32}(?:[0-9A-Za-z]{6})?(?![\w-])/g;
+
+/**
+ * How a found secret relates to the stored keys:
+ * - current: the key's current secret
+ * - previous: a rotated-out secret still inside its grace period
+ * - unknown: not issued here, already rotated out, or deleted
+ */
+export type LeakMatchType = 'current' | 'previous' | 'unknown';
+
+export type LeakedKey = {
+	/** Masked form of the found secret; the plaintext is never kept */
+	maskedKey: string;
+	format: ApiKeyFormatCheck;
+	/** 1-based line numbers the secret appears on */
+	lines: number[];
+	matchType: LeakMatchType;
+	/** Stored key the secret belongs to, null when unknown */
+	apiKey: ApiKey | null;
+	/** True if the secret can still be used to make requests */
+	live: boolean;
+};
+
+/**
+ * Distinct key-shaped strings in text, with the lines they appear on.
+ */
+export function findKeyCandidates(text: string): Map<string, number[]> {
+	const candidates = new Map<string, number[]>();
+	for (const [index, line] of text.split(/\r?\n/).entries()) {
+		for (const [candidate] of line.matchAll(KEY_PATTERN)) {
+			const lines = candidates.get(candidate) ?? [];
+			if (!lines.includes(index + 1)) lines.push(index + 1);
+			candidates.set(candidate, lines);
+		}
+	}
+	return candidates;
+}
+
+/**
+ * Scan text for API keys and match each one against the stored keys.
+ * Live keys come first, in the order they first appear.
+ */
+export async function scanForLeakedKeys(
+	text: string,
+	keys: ApiKey[],
+	now: Date = new Date()
+): Promise<LeakedKey[]> {
+	const byHash = new Map<
+		string,
+		{ apiKey: ApiKey; matchType: LeakMatchType }
+	>();
+	for (const apiKey of keys) {
+		byHash.set(apiKey.keyHash, { apiKey, matchType: 'current' });
+		for (const previous of getActivePreviousSecrets(apiKey, now)) {
+			byHash.set(previous.keyHash, { apiKey, matchType: 'previous' });
+		}
+	}
+
+	const results = await Promise.all(
+		[...findKeyCandidates(text)].map(async ([secret, lines]) => {
+			const match = byHash.get(await hashApiKey(secret));
+			const apiKey = match?.apiKey ?? null;
+			return {
+				maskedKey: maskApiKey(secret),
+				format: validateApiKeyFormat(secret),
+				lines,
+				matchType: match?.matchType ?? 'unknown',
+				apiKey,
+				live: apiKey !== null && isApiKeyActive(apiKey, now)
+			} satisfies LeakedKey;
+		})
+	);
+
+	return results.sort((a, b) => Number(b.live) - Number(a.live));
+}
@@ -0,0 +1,148 @@
+/**
+ * Client for the key management REST API served by the local mock server
+ * (scripts/mockServer.ts), a stand-in for the real backend.
+ *
+ * The dashboard uses it when VITE_API_URL is set; scripts and tests can use
+ * it to work with the same keys the dashboard shows.
+ */
+
+import type { UsageDataset } from '@/types/mock-data';
+import {
+	type ApiKey,
+	ApiKeyConflictError,
+	type ApiKeyDetails,
+	type CreateApiKeyOptions,
+	type KeyLimits,
+	type KeyRestrictions,
+	type RevealedApiKey
+} from './apiKeys';
+import type { ApiKeyScope } from './scopes';
+
+export type CreateKeyRequest = CreateApiKeyOptions & {
+	name: string;
+	environment: 'test' | 'production';
+};
+
+/**
+ * Fields to change on a key; omitted fields are left as they are.
+ */
+export type UpdateKeyRequest = Partial<ApiKeyDetails> & {
+	scopes?: ApiKeyScope[];
+	restrictions?: KeyRestrictions;
+	limits?: KeyLimits;
+	/** Revision the change is based on; rejected with 409 if the key changed since */
+	expectedRevision?: number;
+};
+
+export type RegenerateKeyRequest = {
+	gracePeriodMs?: number;
+	expectedRevision?: number;
+};
+
+/** Error response body */
+export type ManagementApiErrorBody = {
+	error: { message: string; keyId?: string | null };
+};
+
+/**
+ * A request the API answered with an error status. Conflicts (409) are
+ * thrown as ApiKeyConflictError instead, like local writes.
+ */
+export class ManagementApiError extends Error {
+	readonly status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = 'ManagementApiError';
+		this.status = status;
+	}
+}
+
+export type ManagementApiClient = {
+	listKeys(environment?: 'test' | 'production'): Promise<ApiKey[]>;
+	getKey(id: string): Promise<ApiKey>;
+	createKey(request: CreateKeyRequest): Promise<RevealedApiKey>;
+	updateKey(id: string, changes: UpdateKeyRequest): Promise<ApiKey>;
+	revokeKey(id: string, expectedRevision?: number): Promise<ApiKey>;
+	regenerateKey(
+		id: string,
+		request?: RegenerateKeyRequest
+	): Promise<RevealedApiKey>;
+	/** Move a key to the trash */
+	deleteKey(id: string): Promise<void>;
+	getUsage(environment: 'test' | 'production'): Promise<UsageDataset>;
+};
+
+/**
+ * Base URL of the management API from VITE_API_URL, or null if not configured.
+ */
+export function getManagementApiUrl(): string | null {
+	return import.meta.env.VITE_API_URL?.replace(/\/+$/, '') || null;
+}
+
+/**
+ * Create a client for the management API at baseUrl, e.g. "http://localhost:4010".
+ */
+export function createManagementApiClient(
+	baseUrl: string
+): ManagementApiClient {
+	const root = `${baseUrl.replace(/\/+$/, '')}/v1`;
+
+	const request = async <T>(
+		method: string,
+		path: string,
+		body?: unknown
+	): Promise<T> => {
+		const response = await fetch(`${root}${path}`, {
+			method,
+			headers:
+				body === undefined ? undefined : { 'Content-Type': 'application/json' },
+			body: body === undefined ? undefined : JSON.stringify(body)
+		});
+		if (response.status === 204) return undefined as T;
+
+		const data = (await response.json().catch(() => null)) as
+			| T
+			| ManagementApiErrorBody
+			| null;
+		if (!response.ok) {
+			const error = (data as ManagementApiErrorBody | null)?.error;
+			const message =
+				error?.message ??
+				`${method} ${path} failed with status ${response.status}`;
+			if (response.status === 409) {
+				throw new ApiKeyConflictError(message, error?.keyId ?? null);
+			}
+			throw new ManagementApiError(message, response.status);
+		}
+		return data as T;
+	};
+
+	const keyPath = (id: string) => `/keys/${encodeURIComponent(id)}`;
+
+	return {
+		listKeys: async (environment) =>
+			(
+				await request<{ keys: ApiKey[] }>(
+					'GET',
+					environment ? `/keys?environment=${environment}` : '/keys'
+				)
+			).keys,
+		getKey: async (id) =>
+			(await request<{ apiKey: ApiKey }>('GET', keyPath(id))).apiKey,
+		createKey: (body) => request<RevealedApiKey>('POST', '/keys', body),
+		updateKey: async (id, changes) =>
+			(await request<{ apiKey: ApiKey }>('PATCH', keyPath(id), changes)).apiKey,
+		revokeKey: async (id, expectedRevision) =>
+			(
+				await request<{ apiKey: ApiKey }>('POST', `${keyPath(id)}/revoke`, {
+					expectedRevision
+				})
+			).apiKey,
+		regenerateKey: (id, body = {}) =>
+			request<RevealedApiKey>('POST', `${keyPath(id)}/regenerate`, body),
+		deleteKey: (id) => request<void>('DELETE', keyPath(id)),
+		getUsage: (environment) =>
+			request<UsageDataset>('GET', `/usage?environment=${environment}`)
+	};
+}
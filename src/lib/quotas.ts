@@ -0,0 +1,164 @@
+/**
+ * Per-key rate limits and monthly quotas, measured from usage data.
+ */
+
+import type { ApiRequest, UsageDataset } from '@/types/mock-data';
+import type { ApiKey } from './apiKeys';
+
+/** Share of a limit at which a key is considered close to it */
+export const QUOTA_WARNING_RATIO = 0.8;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * - unlimited: the key has no limits configured
+ * - ok: below QUOTA_WARNING_RATIO of every limit
+ * - near: at or above QUOTA_WARNING_RATIO of a limit
+ * - exceeded: monthly quota used up
+ */
+export type QuotaState = 'unlimited' | 'ok' | 'near' | 'exceeded';
+
+export type KeyQuotaUsage = {
+	keyId: string;
+	/** Requests made this calendar month */
+	monthlyUsed: number;
+	monthlyLimit: number | null;
+	/** Highest number of requests in a single minute this month */
+	peakRequestsPerMinute: number;
+	rateLimitPerMinute: number | null;
+	state: QuotaState;
+};
+
+/**
+ * Start of the calendar month (UTC) containing `now`; monthly quotas reset then.
+ */
+export function getQuotaPeriodStart(now: Date): Date {
+	return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Point in time usage is measured at. Mock datasets are snapshots, so
+ * consumption is measured at the end of the dataset rather than today.
+ */
+export function getUsageReferenceDate(dataset: UsageDataset | null): Date {
+	const now = new Date();
+	if (!dataset) return now;
+	const endDate = new Date(dataset.endDate);
+	return endDate < now ? endDate : now;
+}
+
+/**
+ * Share of a limit used, from 0 to 1 (capped). 0 when there is no limit.
+ */
+export function getUsageRatio(used: number, limit: number | null): number {
+	if (!limit) return 0;
+	return Math.min(used / limit, 1);
+}
+
+function getQuotaState(
+	monthlyUsed: number,
+	monthlyLimit: number | null,
+	peakRequestsPerMinute: number,
+	rateLimitPerMinute: number | null
+): QuotaState {
+	if (monthlyLimit === null && rateLimitPerMinute === null) return 'unlimited';
+	if (monthlyLimit !== null && monthlyUsed >= monthlyLimit) return 'exceeded';
+
+	const highestRatio = Math.max(
+		getUsageRatio(monthlyUsed, monthlyLimit),
+		getUsageRatio(peakRequestsPerMinute, rateLimitPerMinute)
+	);
+	return highestRatio >= QUOTA_WARNING_RATIO ? 'near' : 'ok';
+}
+
+/**
+ * Compute quota consumption for every key from request records.
+ * Only requests in the current month up to `now` count.
+ */
+export function computeQuotaUsage(
+	keys: ApiKey[],
+	requests: ApiRequest[],
+	now: Date = new Date()
+): Map<string, KeyQuotaUsage> {
+	const periodStart = getQuotaPeriodStart(now).getTime();
+	const end = now.getTime();
+
+	const monthlyCounts = new Map<string, number>();
+	const minuteCounts = new Map<string, Map<number, number>>();
+
+	for (const request of requests) {
+		const time = new Date(request.timestamp).getTime();
+		if (time < periodStart || time > end) continue;
+
+		monthlyCounts.set(
+			request.keyId,
+			(monthlyCounts.get(request.keyId) ?? 0) + 1
+		);
+
+		const minute = Math.floor(time / MINUTE_MS);
+		let perMinute = minuteCounts.get(request.keyId);
+		if (!perMinute) {
+			perMinute = new Map();
+			minuteCounts.set(request.keyId, perMinute);
+		}
+		perMinute.set(minute, (perMinute.get(minute) ?? 0) + 1);
+	}
+
+	const usage = new Map<string, KeyQuotaUsage>();
+	for (const key of keys) {
+		const monthlyUsed = monthlyCounts.get(key.id) ?? 0;
+		const peakRequestsPerMinute = Math.max(
+			0,
+			...(minuteCounts.get(key.id)?.values() ?? [])
+		);
+		const monthlyLimit = key.monthlyQuota ?? null;
+		const rateLimitPerMinute = key.rateLimitPerMinute ?? null;
+
+		usage.set(key.id, {
+			keyId: key.id,
+			monthlyUsed,
+			monthlyLimit,
+			peakRequestsPerMinute,
+			rateLimitPerMinute,
+			state: getQuotaState(
+				monthlyUsed,
+				monthlyLimit,
+				peakRequestsPerMinute,
+				rateLimitPerMinute
+			)
+		});
+	}
+	return usage;
+}
+
+/**
+ * Check whether one more request would break a key's limits.
+ *
+ * @returns A reason to reject the request with 429, or null if it is within limits
+ */
+export function getQuotaViolation(
+	key: ApiKey,
+	requests: ApiRequest[],
+	now: Date = new Date()
+): string | null {
+	const periodStart = getQuotaPeriodStart(now).getTime();
+	const minuteStart = now.getTime() - MINUTE_MS;
+	let monthlyUsed = 0;
+	let lastMinute = 0;
+
+	for (const request of requests) {
+		if (request.keyId !== key.id) continue;
+		const time = new Date(request.timestamp).getTime();
+		if (time > now.getTime()) continue;
+		if (time >= periodStart) monthlyUsed += 1;
+		if (time > minuteStart) lastMinute += 1;
+	}
+
+	if (key.rateLimitPerMinute && lastMinute >= key.rateLimitPerMinute) {
+		return `Rate limit of ${key.rateLimitPerMinute} requests per minute exceeded`;
+	}
+	if (key.monthlyQuota && monthlyUsed >= key.monthlyQuota) {
+		return `Monthly quota of ${key.monthlyQuota} requests exceeded`;
+	}
+	return null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Decide whether a request made with an API key is allowed.
+ * Shared by everything that simulates requests against stored keys.
+ */
+
+import type { ApiRequest } from '@/types/mock-data';
+import { isIpAllowed, isOriginAllowed } from './allowlist';
+import { type ApiKey, getApiKeyStatus } from './apiKeys';
+import { getQuotaViolation } from './quotas';
+import { hasScope, type ScopeAccess } from './scopes';
+
+/**
+ * What is known about an incoming request. Omitted fields are not checked,
+ * except that a key with an allowlist rejects requests without an IP/referrer.
+ */
+export type KeyRequestContext = {
+	environment?: 'test' | 'production';
+	resource?: string;
+	access?: ScopeAccess;
+	/** Client IP address */
+	ip?: string;
+	/** Referer/Origin header value */
+	referrer?: string;
+	/** Earlier requests, used to enforce the key's rate limit and monthly quota */
+	requests?: ApiRequest[];
+};
+
+export type KeyRequestDecision =
+	| { allowed: true }
+	| { allowed: false; status: 401 | 403 | 429; reason: string };
+
+/**
+ * Evaluate a request against a key's status, environment, allowlists and scopes.
+ * Unknown, revoked and expired keys get 401, keys over their limits get 429
+ * and everything else that fails gets 403.
+ */
+export function evaluateKeyRequest(
+	key: ApiKey | undefined,
+	request: KeyRequestContext,
+	now: Date = new Date()
+): KeyRequestDecision {
+	if (!key) {
+		return { allowed: false, status: 401, reason: 'Unknown API key' };
+	}
+
+	const status = getApiKeyStatus(key, now);
+	if (status === 'revoked') {
+		return { allowed: false, status: 401, reason: 'API key has been revoked' };
+	}
+	if (status === 'expired') {
+		return { allowed: false, status: 401, reason: 'API key has expired' };
+	}
+
+	if (request.environment && request.environment !== key.environment) {
+		return {
+			allowed: false,
+			status: 403,
+			reason: `API key is for the ${key.environment} environment`
+		};
+	}
+
+	if (!isIpAllowed(request.ip, key.allowedIps ?? [])) {
+		return {
+			allowed: false,
+			status: 403,
+			reason: `IP address ${request.ip ?? '(none)'} is not in the key's allowlist`
+		};
+	}
+
+	if (!isOriginAllowed(request.referrer, key.allowedOrigins ?? [])) {
+		return {
+			allowed: false,
+			status: 403,
+			reason: `Referrer ${request.referrer ?? '(none)'} is not in the key's allowlist`
+		};
+	}
+
+	if (
+		request.resource &&
+		!hasScope(key.scopes, request.resource, request.access ?? 'read')
+	) {
+		return {
+			allowed: false,
+			status: 403,
+			reason: `API key lacks ${request.access ?? 'read'} access to ${request.resource}`
+		};
+	}
+
+	const quotaViolation = request.requests
+		? getQuotaViolation(key, request.requests, now)
+		: null;
+	if (quotaViolation) {
+		return { allowed: false, status: 429, reason: quotaViolation };
+	}
+
+	return { allowed: true };
+}
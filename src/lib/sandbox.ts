@@ -0,0 +1,271 @@
+/**
+ * In-browser simulator for the sandbox API. Requests are authenticated with a
+ * bearer API key against the stored keys, checked like the real API would
+ * check them, answered with fake payloads and recorded in the usage log.
+ */
+
+import type { ApiRequest } from '@/types/mock-data';
+import {
+	type ApiKey,
+	getActivePreviousSecrets,
+	getApiKeys,
+	hashApiKey
+} from './apiKeys';
+import { evaluateKeyRequest, type KeyRequestDecision } from './requestPolicy';
+import { API_RESOURCES, type ApiResource } from './scopes';
+import { fetchUsageDataset } from './usage';
+import { getRecordedRequests, recordApiRequest } from './usageLog';
+
+export type SandboxMethod = ApiRequest['method'];
+
+export const SANDBOX_METHODS: SandboxMethod[] = [
+	'GET',
+	'POST',
+	'PUT',
+	'PATCH',
+	'DELETE'
+];
+
+/** Client IP address of every sandbox request */
+export const SANDBOX_CLIENT_IP = '127.0.0.1';
+
+export type SandboxRequest = {
+	method: SandboxMethod;
+	endpoint: string;
+	/** Authorization header value, e.g. "Bearer sk_demo_..." */
+	authorization: string;
+	/** Environment the request is sent to */
+	environment: 'test' | 'production';
+	/** JSON body, for POST, PUT and PATCH */
+	body?: Record<string, unknown>;
+};
+
+export type SandboxResponse = {
+	status: number;
+	/** JSON body; null for 204 responses */
+	body: unknown;
+	responseTimeMs: number;
+	/** Key the request was made with, null if it did not match one */
+	keyId: string | null;
+};
+
+type Payload = Record<string, unknown>;
+
+const FIRST_NAMES = ['Ada', 'Grace', 'Linus', 'Margaret', 'Alan', 'Barbara'];
+const LAST_NAMES = ['Lovelace', 'Hopper', 'Hamilton', 'Turing', 'Liskov'];
+
+function randomInt(min: number, max: number): number {
+	return Math.floor(Math.random() * (max - min + 1)) + min;
+}
+
+function randomChoice<T>(values: readonly T[]): T {
+	return values[randomInt(0, values.length - 1)];
+}
+
+function randomId(prefix: string): string {
+	return `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`;
+}
+
+/** Builds one fake object for each resource */
+const SAMPLE_OBJECTS: Record<ApiResource, (now: Date) => Payload> = {
+	'/api/users': (now) => {
+		const first = randomChoice(FIRST_NAMES);
+		const last = randomChoice(LAST_NAMES);
+		return {
+			id: randomId('usr'),
+			object: 'user',
+			name: `${first} ${last}`,
+			email: `${first}.${last}@example.com`.toLowerCase(),
+			createdAt: now.toISOString()
+		};
+	},
+	'/api/payments': (now) => ({
+		id: randomId('pay'),
+		object: 'payment',
+		amount: randomInt(500, 250_000),
+		currency: randomChoice(['usd', 'eur', 'gbp']),
+		status: randomChoice(['succeeded', 'succeeded', 'pending', 'failed']),
+		createdAt: now.toISOString()
+	}),
+	'/api/reports': (now) => {
+		const id = randomId('rpt');
+		return {
+			id,
+			object: 'report',
+			type: randomChoice(['revenue', 'churn', 'usage']),
+			status: randomChoice(['ready', 'processing']),
+			url: `https://reports.example.com/${id}.csv`,
+			createdAt: now.toISOString()
+		};
+	},
+	'/api/analytics': (now) => ({
+		object: 'analytics',
+		period: '7d',
+		generatedAt: now.toISOString(),
+		metrics: {
+			pageViews: randomInt(1_000, 100_000),
+			sessions: randomInt(500, 40_000),
+			conversionRate: Math.round(Math.random() * 500) / 100
+		}
+	}),
+	'/api/auth': (now) => ({
+		object: 'token',
+		accessToken: randomId('tok'),
+		tokenType: 'Bearer',
+		expiresIn: 3600,
+		issuedAt: now.toISOString()
+	}),
+	'/api/webhooks': (now) => ({
+		id: randomId('wh'),
+		object: 'webhook',
+		url: 'https://example.com/webhooks',
+		events: ['payment.succeeded', 'payment.failed'],
+		enabled: true,
+		createdAt: now.toISOString()
+	})
+};
+
+function isApiResource(endpoint: string): endpoint is ApiResource {
+	return (API_RESOURCES as readonly string[]).includes(endpoint);
+}
+
+/**
+ * Successful response for an allowed request: a list for GET, the created or
+ * updated object for writes and no content for DELETE.
+ */
+function buildSuccess(
+	endpoint: ApiResource,
+	request: SandboxRequest,
+	now: Date
+): { status: number; body: unknown } {
+	const sample = () => SAMPLE_OBJECTS[endpoint](now);
+	switch (request.method) {
+		case 'GET':
+			return {
+				status: 200,
+				body: {
+					object: 'list',
+					data: Array.from({ length: 3 }, sample),
+					hasMore: false
+				}
+			};
+		case 'POST':
+			return { status: 201, body: { ...sample(), ...request.body } };
+		case 'PUT':
+		case 'PATCH':
+			return {
+				status: 200,
+				body: { ...sample(), ...request.body, updatedAt: now.toISOString() }
+			};
+		case 'DELETE':
+			return { status: 204, body: null };
+	}
+}
+
+function errorBody(status: number, message: string) {
+	return { error: { status, message } };
+}
+
+/**
+ * The stored key a secret belongs to, including secrets still valid during a
+ * rotation grace period.
+ */
+async function findKeyBySecret(
+	secret: string,
+	now: Date
+): Promise<ApiKey | undefined> {
+	const hash = await hashApiKey(secret);
+	return getApiKeys().find(
+		(key) =>
+			key.keyHash === hash ||
+			getActivePreviousSecrets(key, now).some(
+				(previous) => previous.keyHash === hash
+			)
+	);
+}
+
+/**
+ * Earlier requests in an environment, used to enforce rate limits and quotas.
+ */
+async function getEarlierRequests(
+	environment: 'test' | 'production'
+): Promise<ApiRequest[]> {
+	let seeded: ApiRequest[] = [];
+	try {
+		seeded = (await fetchUsageDataset(environment)).requests;
+	} catch (error) {
+		console.error('Failed to load usage data for limit checks:', error);
+	}
+	return [...seeded, ...getRecordedRequests(environment)];
+}
+
+function wait(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Send a request to the simulated API.
+ *
+ * Missing, unknown, revoked and expired keys get 401; keys for the other
+ * environment, outside their allowlists or without the needed scope get 403;
+ * keys over their limits get 429. Every request made with a stored key is
+ * recorded in the usage log of the key's environment.
+ */
+export async function sendSandboxRequest(
+	request: SandboxRequest
+): Promise<SandboxResponse> {
+	const now = new Date();
+	const secret = /^Bearer\s+(\S+)$/i.exec(request.authorization.trim())?.[1];
+	const key = secret ? await findKeyBySecret(secret, now) : undefined;
+
+	let status: number;
+	let body: unknown;
+	const resource = isApiResource(request.endpoint) ? request.endpoint : null;
+	const decision: KeyRequestDecision = secret
+		? evaluateKeyRequest(
+				key,
+				{
+					environment: request.environment,
+					resource: resource ?? undefined,
+					access: request.method === 'GET' ? 'read' : 'write',
+					ip: SANDBOX_CLIENT_IP,
+					referrer: window.location.origin,
+					requests: key ? await getEarlierRequests(key.environment) : []
+				},
+				now
+			)
+		: { allowed: false, status: 401, reason: 'Missing bearer API key' };
+
+	if (!decision.allowed) {
+		status = decision.status;
+		body = errorBody(status, decision.reason);
+	} else if (!resource) {
+		status = 404;
+		body = errorBody(404, `No such endpoint: ${request.endpoint}`);
+	} else {
+		({ status, body } = buildSuccess(resource, request, now));
+	}
+
+	// Rejected requests return quickly; served ones take a realistic time
+	const responseTimeMs = status < 400 ? randomInt(40, 400) : randomInt(5, 40);
+	await wait(responseTimeMs);
+
+	if (key) {
+		try {
+			// Recorded with the key's environment, whose dataset holds its usage
+			recordApiRequest(key.environment, {
+				id: `req_${now.getTime()}_${randomInt(10_000, 99_999)}`,
+				keyId: key.id,
+				endpoint: request.endpoint,
+				method: request.method,
+				statusCode: status,
+				responseTimeMs,
+				timestamp: now.toISOString()
+			});
+		} catch (error) {
+			console.error('Failed to record sandbox request:', error);
+		}
+	}
+
+	return { status, body, responseTimeMs, keyId: key?.id ?? null };
+}
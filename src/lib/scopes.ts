@@ -0,0 +1,78 @@
+/**
+ * API key scopes: per-resource read/write permissions.
+ */
+
+/**
+ * Resources an API key can be granted access to.
+ * Shared with the mock data generator so usage data only hits known resources.
+ */
+export const API_RESOURCES = [
+	'/api/users',
+	'/api/payments',
+	'/api/reports',
+	'/api/analytics',
+	'/api/auth',
+	'/api/webhooks'
+] as const;
+
+export type ApiResource = (typeof API_RESOURCES)[number];
+
+/**
+ * Access level for a resource. Write access implies read access.
+ */
+export type ScopeAccess = 'read' | 'write';
+
+export type ApiKeyScope = {
+	resource: ApiResource;
+	access: ScopeAccess;
+};
+
+/**
+ * Scopes granting write access to every resource.
+ * Used for keys created before scopes existed so they keep working as before.
+ */
+export function getFullAccessScopes(): ApiKeyScope[] {
+	return API_RESOURCES.map((resource) => ({ resource, access: 'write' }));
+}
+
+/**
+ * Format a scope as a short label, e.g. "users:read".
+ */
+export function formatScope(scope: ApiKeyScope): string {
+	return `${scope.resource.replace(/^\/api\//, '')}:${scope.access}`;
+}
+
+/**
+ * Check whether a set of scopes allows the given access to a resource.
+ */
+export function hasScope(
+	scopes: ApiKeyScope[],
+	resource: string,
+	access: ScopeAccess
+): boolean {
+	const scope = scopes.find((s) => s.resource === resource);
+	if (!scope) return false;
+	return access === 'read' || scope.access === 'write';
+}
+
+/**
+ * Normalize a list of scopes: drops unknown resources and keeps
+ * a single entry per resource (the broadest access wins).
+ */
+export function normalizeScopes(scopes: ApiKeyScope[]): ApiKeyScope[] {
+	const byResource = new Map<ApiResource, ScopeAccess>();
+
+	for (const scope of scopes) {
+		if (!API_RESOURCES.includes(scope.resource)) continue;
+		if (scope.access !== 'read' && scope.access !== 'write') continue;
+		if (byResource.get(scope.resource) === 'write') continue;
+		byResource.set(scope.resource, scope.access);
+	}
+
+	return API_RESOURCES.filter((resource) => byResource.has(resource)).map(
+		(resource) => ({
+			resource,
+			access: byResource.get(resource) as ScopeAccess
+		})
+	);
+}
@@ -1,7 +1,141 @@
 /**
- * localStorage utilities with safe fallbacks
+ * Persistence layer shared by API keys, auth, environment mode and feature
+ * flags.
+ *
+ * Each persisted entity gets a typed repository; repositories read and write
+ * through the storage backend selected at startup, so pointing the dashboard
+ * at another store only takes a different backend.
+ *
+ * Values are stored as `{ "version": n, "data": ... }`. When an entity's shape
+ * changes, its schema version is bumped and a migration added; stored data is
+ * upgraded at startup by migrateStorage, and data that cannot be upgraded is
+ * moved to a quarantine entry instead of being dropped.
  */
 
+import {
+	createCachedBackend,
+	createHttpBackend,
+	createIndexedDbBackend,
+	createLocalStorageBackend,
+	createMemoryBackend,
+	type StorageConflictError
+} from './storageBackends';
+
+/** Backends the dashboard can be configured to use */
+export type StorageBackendKind =
+	| 'localStorage'
+	| 'indexedDB'
+	| 'memory'
+	| 'http';
+
+/**
+ * Synchronous key-value store that repositories read and write.
+ * Values are serialized strings; writes throw if they cannot be stored.
+ */
+export interface StorageBackend {
+	/** Name used in logs; a StorageBackendKind for the dashboard's backends */
+	readonly kind: string;
+	getItem(key: string): string | null;
+	setItem(key: string, value: string): void;
+	removeItem(key: string): void;
+	/**
+	 * Reload data another tab may have written. Only backends that cache
+	 * another store need this.
+	 */
+	refresh?(): Promise<void>;
+}
+
+/**
+ * Asynchronous store (IndexedDB, a remote API) used behind an in-memory cache,
+ * see createCachedBackend.
+ */
+export interface AsyncStorageBackend {
+	readonly kind: string;
+	getItems(keys: readonly string[]): Promise<Map<string, string>>;
+	setItem(key: string, value: string): Promise<void>;
+	removeItem(key: string): Promise<void>;
+}
+
+export type StorageConfig = {
+	backend: StorageBackendKind;
+	/** Base URL of the storage API, for the http backend */
+	url?: string;
+};
+
+/**
+ * Typed access to one persisted entity.
+ */
+export type Repository<T> = {
+	readonly key: string;
+	/** Stored value, or null if there is none or it cannot be read */
+	get(): T | null;
+	/**
+	 * Stored value, or null if there is none. For data that must not be
+	 * overwritten just because this version of the app cannot read it.
+	 * @throws {Error} If the stored value cannot be upgraded or is invalid
+	 */
+	read(): T | null;
+	/** Stored value as serialized, without upgrading it; cheap to compare */
+	getRaw(): string | null;
+	/** @throws {Error} If the backend cannot store the value */
+	set(value: T): void;
+	remove(): void;
+};
+
+/**
+ * Upgrade step from the previous schema version.
+ * @throws {Error} If the data cannot be upgraded
+ */
+export type Migration = (data: unknown) => unknown;
+
+export type RepositorySchema<T> = {
+	/** Current schema version, starting at 1 */
+	version: number;
+	/**
+	 * Upgrade steps keyed by the version they produce. Migration 1 upgrades
+	 * data saved before entries were versioned.
+	 */
+	migrations: Record<number, Migration>;
+	/**
+	 * Check data at the current version.
+	 * @throws {Error} If the data is unusable
+	 */
+	validate: (data: unknown) => T;
+};
+
+/**
+ * Stored data that could not be upgraded, kept for inspection or recovery.
+ */
+export type QuarantinedEntry = {
+	key: string;
+	/** The stored value exactly as it was found */
+	raw: string;
+	reason: string;
+	quarantinedAt: string;
+};
+
+export type StorageMigrationReport = {
+	upgraded: string[];
+	quarantined: string[];
+};
+
+type StoredEntry = { version: number; data: unknown };
+
+const QUARANTINE_STORAGE_KEY = 'storage_quarantine';
+
+/** Schemas of every repository, by storage key */
+const repositorySchemas = new Map<string, RepositorySchema<unknown>>();
+
+let migrationReport: StorageMigrationReport = { upgraded: [], quarantined: [] };
+
+let activeBackend: StorageBackend | null = null;
+
+const rejectedWriteListeners = new Set<(error: StorageConflictError) => void>();
+
+function notifyRejectedWrite(error: StorageConflictError): void {
+	for (const listener of rejectedWriteListeners) listener(error);
+}
+
 /**
  * Check if localStorage is available.
  * Returns false in SSR, tests, or hardened browsers.
@@ -14,58 +148,294 @@ export function isStorageAvailable(): boolean {
 	}
 }
 
+function getDefaultBackend(): StorageBackend {
+	if (isStorageAvailable()) {
+		return createLocalStorageBackend();
+	}
+	console.warn('localStorage unavailable - data will not persist');
+	return createMemoryBackend();
+}
+
 /**
- * Safely get an item from localStorage
- * @param key - The storage key
- * @param fallback - Fallback value if storage is unavailable or key doesn't exist
- * @returns The parsed value or fallback
+ * The backend repositories currently use. Defaults to localStorage (or memory
+ * when localStorage is unavailable) until initializeStorage is called.
  */
-export function getStorageItem<T>(key: string, fallback: T): T {
-	if (!isStorageAvailable()) {
-		return fallback;
-	}
+export function getStorageBackend(): StorageBackend {
+	activeBackend ??= getDefaultBackend();
+	return activeBackend;
+}
 
-	try {
-		const item = localStorage.getItem(key);
-		return item ? (JSON.parse(item) as T) : fallback;
-	} catch {
-		return fallback;
+/**
+ * Replace the active backend, e.g. with a memory backend in scripts.
+ */
+export function setStorageBackend(backend: StorageBackend): void {
+	activeBackend = backend;
+}
+
+/**
+ * Listen for writes the storage backend rejected after they were made,
+ * because the stored value had changed elsewhere. The backend has reloaded
+ * its copy by the time listeners are called.
+ * @returns Unsubscribe function
+ */
+export function subscribeToRejectedWrites(
+	listener: (error: StorageConflictError) => void
+): () => void {
+	rejectedWriteListeners.add(listener);
+	return () => {
+		rejectedWriteListeners.delete(listener);
+	};
+}
+
+/**
+ * Storage settings from VITE_STORAGE_BACKEND and VITE_STORAGE_URL. If no
+ * backend is set but VITE_API_URL is, data is kept by the management API.
+ */
+export function getStorageConfig(): StorageConfig {
+	const backend = import.meta.env.VITE_STORAGE_BACKEND;
+	const apiUrl = import.meta.env.VITE_API_URL?.replace(/\/+$/, '');
+	switch (backend) {
+		case undefined:
+		case '':
+			return apiUrl
+				? { backend: 'http', url: `${apiUrl}/v1/storage` }
+				: { backend: 'localStorage' };
+		case 'localStorage':
+			return { backend: 'localStorage' };
+		case 'indexedDB':
+		case 'memory':
+			return { backend };
+		case 'http':
+			return { backend, url: import.meta.env.VITE_STORAGE_URL };
+		default:
+			console.warn(`Unknown storage backend "${backend}", using localStorage`);
+			return { backend: 'localStorage' };
 	}
 }
 
+function getHydratedKeys(): string[] {
+	return [...repositorySchemas.keys(), QUARANTINE_STORAGE_KEY];
+}
+
 /**
- * Safely set an item in localStorage
- * @param key - The storage key
- * @param value - The value to store (will be JSON stringified)
- * @returns true if successful, false otherwise
+ * Select and load the storage backend, then upgrade stored data to the
+ * current schemas. Called once before the first render.
+ * If an asynchronous backend cannot be loaded, data is kept in memory for the
+ * session so nothing overwrites the unreachable store.
  */
-export function setStorageItem<T>(key: string, value: T): boolean {
-	if (!isStorageAvailable()) {
-		return false;
+export async function initializeStorage(
+	config: StorageConfig = getStorageConfig()
+): Promise<StorageBackend> {
+	try {
+		switch (config.backend) {
+			case 'localStorage':
+				activeBackend = getDefaultBackend();
+				break;
+			case 'memory':
+				activeBackend = createMemoryBackend();
+				break;
+			case 'indexedDB':
+				activeBackend = await createCachedBackend(
+					createIndexedDbBackend(),
+					getHydratedKeys(),
+					notifyRejectedWrite
+				);
+				break;
+			case 'http':
+				if (!config.url) {
+					throw new Error('VITE_STORAGE_URL is required for http storage');
+				}
+				activeBackend = await createCachedBackend(
+					createHttpBackend(config.url),
+					getHydratedKeys(),
+					notifyRejectedWrite
+				);
+				break;
+		}
+	} catch (error) {
+		console.error(
+			`Failed to load ${config.backend} storage, data will not persist:`,
+			error
+		);
+		activeBackend = createMemoryBackend();
 	}
+	migrateStorage();
+	return getStorageBackend();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
 
+/**
+ * Split a stored value into version and data. Values saved before entries
+ * were versioned are version 0: parsed JSON, or the raw string if it is not
+ * JSON (environment mode used to be stored bare).
+ */
+function parseStoredEntry(raw: string): StoredEntry {
+	let parsed: unknown;
 	try {
-		localStorage.setItem(key, JSON.stringify(value));
-		return true;
+		parsed = JSON.parse(raw);
 	} catch {
-		return false;
+		return { version: 0, data: raw };
+	}
+	if (
+		isRecord(parsed) &&
+		typeof parsed.version === 'number' &&
+		'data' in parsed
+	) {
+		return { version: parsed.version, data: parsed.data };
 	}
+	return { version: 0, data: parsed };
 }
 
 /**
- * Safely remove an item from localStorage
- * @param key - The storage key
- * @returns true if successful, false otherwise
+ * Run the migrations a stored value needs and validate the result.
+ *
+ * @throws {Error} If the value was saved by a newer schema, a migration is
+ * missing or fails, or the result is invalid
  */
-export function removeStorageItem(key: string): boolean {
-	if (!isStorageAvailable()) {
-		return false;
+function upgradeStoredValue<T>(
+	raw: string,
+	schema: RepositorySchema<T>
+): { value: T; upgraded: boolean } {
+	const entry = parseStoredEntry(raw);
+	if (entry.version > schema.version) {
+		throw new Error(
+			`Saved by a newer version of the app (schema v${entry.version})`
+		);
 	}
 
+	let data = entry.data;
+	for (let version = entry.version + 1; version <= schema.version; version++) {
+		const migrate = schema.migrations[version];
+		if (!migrate) {
+			throw new Error(`No migration to schema v${version}`);
+		}
+		data = migrate(data);
+	}
+
+	return {
+		value: schema.validate(data),
+		upgraded: entry.version < schema.version
+	};
+}
+
+function serializeEntry(version: number, data: unknown): string {
+	return JSON.stringify({ version, data } satisfies StoredEntry);
+}
+
+/**
+ * Entries set aside by migrateStorage, oldest first.
+ */
+export function getQuarantinedEntries(): QuarantinedEntry[] {
 	try {
-		localStorage.removeItem(key);
-		return true;
-	} catch {
-		return false;
+		const raw = getStorageBackend().getItem(QUARANTINE_STORAGE_KEY);
+		const entries = raw ? (JSON.parse(raw) as unknown) : [];
+		return Array.isArray(entries) ? entries : [];
+	} catch (error) {
+		console.error('Failed to read quarantined storage entries:', error);
+		return [];
 	}
 }
+
+/**
+ * Permanently delete quarantined entries.
+ */
+export function clearQuarantine(): void {
+	getStorageBackend().removeItem(QUARANTINE_STORAGE_KEY);
+}
+
+function quarantineEntry(key: string, raw: string, reason: string): void {
+	const backend = getStorageBackend();
+	backend.setItem(
+		QUARANTINE_STORAGE_KEY,
+		JSON.stringify([
+			...getQuarantinedEntries(),
+			{
+				key,
+				raw,
+				reason,
+				quarantinedAt: new Date().toISOString()
+			} satisfies QuarantinedEntry
+		])
+	);
+	backend.removeItem(key);
+}
+
+/**
+ * Upgrade every stored entity to its current schema version. Called by
+ * initializeStorage. Entries that cannot be upgraded are moved
+ * to the quarantine so the app starts with defaults instead of broken data.
+ */
+export function migrateStorage(): StorageMigrationReport {
+	const backend = getStorageBackend();
+	const report: StorageMigrationReport = { upgraded: [], quarantined: [] };
+
+	for (const [key, schema] of repositorySchemas) {
+		const raw = backend.getItem(key);
+		if (raw === null) continue;
+
+		try {
+			const { value, upgraded } = upgradeStoredValue(raw, schema);
+			if (upgraded) {
+				backend.setItem(key, serializeEntry(schema.version, value));
+				report.upgraded.push(key);
+			}
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : String(error);
+			console.warn(`Quarantined unreadable "${key}": ${reason}`);
+			try {
+				quarantineEntry(key, raw, reason);
+				report.quarantined.push(key);
+			} catch (quarantineError) {
+				console.error(`Failed to quarantine "${key}":`, quarantineError);
+			}
+		}
+	}
+
+	migrationReport = report;
+	return report;
+}
+
+/**
+ * Result of the startup migration run.
+ */
+export function getStorageMigrationReport(): StorageMigrationReport {
+	return migrationReport;
+}
+
+/**
+ * Create a repository for one storage key. Values written by other tabs
+ * running an older version are upgraded as they are read.
+ */
+export function createRepository<T>(
+	key: string,
+	schema: RepositorySchema<T>
+): Repository<T> {
+	repositorySchemas.set(key, schema);
+
+	const read = (): T | null => {
+		const raw = getStorageBackend().getItem(key);
+		return raw === null ? null : upgradeStoredValue(raw, schema).value;
+	};
+
+	const get = (): T | null => {
+		try {
+			return read();
+		} catch (error) {
+			console.error(`Failed to read "${key}" from storage:`, error);
+			return null;
+		}
+	};
+
+	return {
+		key,
+		get,
+		read,
+		getRaw: () => getStorageBackend().getItem(key),
+		set: (value) =>
+			getStorageBackend().setItem(key, serializeEntry(schema.version, value)),
+		remove: () => getStorageBackend().removeItem(key)
+	};
+}
@@ -0,0 +1,211 @@
+/**
+ * Storage backends for the repositories in storage.ts.
+ *
+ * localStorage and memory are read synchronously. IndexedDB and HTTP are
+ * asynchronous, so they are loaded into an in-memory cache at startup and
+ * written through in the background.
+ */
+
+import type { AsyncStorageBackend, StorageBackend } from './storage';
+
+const INDEXED_DB_NAME = 'api-key-dashboard';
+const INDEXED_DB_STORE = 'entries';
+
+/**
+ * A write an asynchronous backend refused because the stored value changed
+ * since this copy of it was loaded.
+ */
+export class StorageConflictError extends Error {
+	readonly key: string;
+
+	constructor(message: string, key: string) {
+		super(message);
+		this.name = 'StorageConflictError';
+		this.key = key;
+	}
+}
+
+/**
+ * Backend over window.localStorage.
+ */
+export function createLocalStorageBackend(): StorageBackend {
+	return {
+		kind: 'localStorage',
+		getItem: (key) => localStorage.getItem(key),
+		setItem: (key, value) => localStorage.setItem(key, value),
+		removeItem: (key) => localStorage.removeItem(key)
+	};
+}
+
+/**
+ * Backend that keeps data for the lifetime of the page only.
+ */
+export function createMemoryBackend(
+	initial: Iterable<[string, string]> = []
+): StorageBackend {
+	const items = new Map(initial);
+	return {
+		kind: 'memory',
+		getItem: (key) => items.get(key) ?? null,
+		setItem: (key, value) => {
+			items.set(key, value);
+		},
+		removeItem: (key) => {
+			items.delete(key);
+		}
+	};
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+	const request = indexedDB.open(INDEXED_DB_NAME, 1);
+	request.onupgradeneeded = () => {
+		request.result.createObjectStore(INDEXED_DB_STORE);
+	};
+	return requestToPromise(request);
+}
+
+/**
+ * Backend over an IndexedDB object store, one record per storage key.
+ */
+export function createIndexedDbBackend(): AsyncStorageBackend {
+	let database: Promise<IDBDatabase> | null = null;
+
+	const getStore = async (mode: IDBTransactionMode) => {
+		database ??= openDatabase();
+		return (await database)
+			.transaction(INDEXED_DB_STORE, mode)
+			.objectStore(INDEXED_DB_STORE);
+	};
+
+	return {
+		kind: 'indexedDB',
+		async getItems(keys) {
+			const store = await getStore('readonly');
+			const values = await Promise.all(
+				keys.map((key) => requestToPromise<unknown>(store.get(key)))
+			);
+			const items = new Map<string, string>();
+			values.forEach((value, index) => {
+				if (typeof value === 'string') items.set(keys[index], value);
+			});
+			return items;
+		},
+		async setItem(key, value) {
+			const store = await getStore('readwrite');
+			await requestToPromise(store.put(value, key));
+		},
+		async removeItem(key) {
+			const store = await getStore('readwrite');
+			await requestToPromise(store.delete(key));
+		}
+	};
+}
+
+/**
+ * Backend over a REST API with one resource per storage key:
+ * GET, PUT and DELETE `${baseUrl}/${key}`. A 404 means the key is not set,
+ * and a 409 that a write was based on a stale copy.
+ */
+export function createHttpBackend(baseUrl: string): AsyncStorageBackend {
+	const getUrl = (key: string) =>
+		`${baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(key)}`;
+
+	const send = async (key: string, init: RequestInit) => {
+		const response = await fetch(getUrl(key), init);
+		if (response.status === 409) {
+			const body = (await response.json().catch(() => null)) as {
+				error?: { message?: string };
+			} | null;
+			throw new StorageConflictError(
+				body?.error?.message ?? `${init.method} ${key} was rejected as stale`,
+				key
+			);
+		}
+		if (!response.ok) {
+			throw new Error(
+				`${init.method} ${key} failed with status ${response.status}`
+			);
+		}
+	};
+
+	return {
+		kind: 'http',
+		async getItems(keys) {
+			const entries = await Promise.all(
+				keys.map(async (key) => {
+					const response = await fetch(getUrl(key));
+					if (response.status === 404) return null;
+					if (!response.ok) {
+						throw new Error(`GET ${key} failed with status ${response.status}`);
+					}
+					return [key, await response.text()] as const;
+				})
+			);
+			return new Map(entries.filter((entry) => entry !== null));
+		},
+		setItem: (key, value) =>
+			send(key, {
+				method: 'PUT',
+				headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+				body: value
+			}),
+		removeItem: (key) => send(key, { method: 'DELETE' })
+	};
+}
+
+/**
+ * Load the given keys from an asynchronous backend into memory and return a
+ * synchronous backend over that cache. Writes update the cache immediately
+ * and are sent to the backend in order; failed writes are logged. A write
+ * rejected as stale means the cache is out of date: it is reloaded and
+ * onConflict is called. refresh reloads the cache when another tab reports
+ * a change.
+ *
+ * @throws {Error} If the initial load fails
+ */
+export async function createCachedBackend(
+	backend: AsyncStorageBackend,
+	keys: readonly string[],
+	onConflict?: (error: StorageConflictError) => void
+): Promise<StorageBackend> {
+	let cache = await backend.getItems(keys);
+	let pending = Promise.resolve();
+
+	const enqueue = (write: () => Promise<void>, description: string) => {
+		pending = pending.then(write).catch(async (error) => {
+			console.error(`Failed to ${description} in ${backend.kind}:`, error);
+			if (!(error instanceof StorageConflictError)) return;
+			try {
+				cache = await backend.getItems(keys);
+			} catch (reloadError) {
+				console.error(`Failed to reload ${backend.kind}:`, reloadError);
+			}
+			onConflict?.(error);
+		});
+	};
+
+	return {
+		kind: backend.kind,
+		getItem: (key) => cache.get(key) ?? null,
+		setItem: (key, value) => {
+			cache.set(key, value);
+			enqueue(() => backend.setItem(key, value), `save "${key}"`);
+		},
+		removeItem: (key) => {
+			cache.delete(key);
+			enqueue(() => backend.removeItem(key), `remove "${key}"`);
+		},
+		async refresh() {
+			// Let this tab's own writes land before reading the store back
+			await pending;
+			cache = await backend.getItems(keys);
+		}
+	};
+}
@@ -0,0 +1,122 @@
+/**
+ * Cross-tab sync bus. Changes to persisted state are published as typed
+ * events so every open view can update what changed, in this tab and in
+ * others.
+ *
+ * Uses BroadcastChannel, falling back to storage events on a dedicated
+ * localStorage entry where BroadcastChannel is unavailable.
+ */
+
+import { getStorageBackend, isStorageAvailable } from './storage';
+
+export type SyncEvent =
+	| { type: 'key:created'; keyIds: string[] }
+	| { type: 'key:updated'; keyIds: string[] }
+	| { type: 'key:revoked'; keyIds: string[] }
+	| { type: 'key:deleted'; keyIds: string[] }
+	| { type: 'trash:changed' }
+	| { type: 'flag:toggled'; flag: string; enabled: boolean }
+	| { type: 'environment:changed'; mode: 'test' | 'production' }
+	| { type: 'usage:recorded'; environment: 'test' | 'production' }
+	| { type: 'session:login' }
+	| { type: 'session:logout' };
+
+export type KeySyncEvent = Extract<SyncEvent, { keyIds: string[] }>;
+
+/** Where an event came from: this tab, or another tab */
+export type SyncEventSource = 'local' | 'remote';
+
+export type SyncListener = (event: SyncEvent, source: SyncEventSource) => void;
+
+const CHANNEL_NAME = 'api-key-dashboard';
+/** localStorage entry used to relay events when BroadcastChannel is missing */
+const FALLBACK_STORAGE_KEY = 'sync_bus';
+
+const listeners = new Set<SyncListener>();
+
+let channel: BroadcastChannel | null = null;
+let connected = false;
+
+/**
+ * True for events about API keys.
+ */
+export function isKeySyncEvent(event: SyncEvent): event is KeySyncEvent {
+	return 'keyIds' in event;
+}
+
+function notify(event: SyncEvent, source: SyncEventSource): void {
+	for (const listener of listeners) {
+		listener(event, source);
+	}
+}
+
+/**
+ * Deliver an event from another tab. Backends that cache another store are
+ * refreshed first so listeners read the other tab's writes.
+ */
+async function receive(event: SyncEvent): Promise<void> {
+	try {
+		await getStorageBackend().refresh?.();
+	} catch (error) {
+		console.error('Failed to refresh storage after a sync event:', error);
+	}
+	notify(event, 'remote');
+}
+
+function connect(): void {
+	if (connected || typeof window === 'undefined') return;
+	connected = true;
+
+	if (typeof BroadcastChannel !== 'undefined') {
+		channel = new BroadcastChannel(CHANNEL_NAME);
+		channel.onmessage = (e: MessageEvent<SyncEvent>) => {
+			void receive(e.data);
+		};
+		return;
+	}
+
+	window.addEventListener('storage', (e) => {
+		if (e.key !== FALLBACK_STORAGE_KEY || !e.newValue) return;
+		try {
+			void receive((JSON.parse(e.newValue) as { event: SyncEvent }).event);
+		} catch (error) {
+			console.error('Failed to parse sync event:', error);
+		}
+	});
+}
+
+/**
+ * Publish a change to listeners in this tab and in other tabs.
+ */
+export function publishSyncEvent(event: SyncEvent): void {
+	connect();
+	notify(event, 'local');
+
+	if (channel) {
+		channel.postMessage(event);
+		return;
+	}
+	if (!isStorageAvailable()) return;
+
+	try {
+		// The nonce makes repeated events distinct so a storage event fires
+		localStorage.setItem(
+			FALLBACK_STORAGE_KEY,
+			JSON.stringify({ event, nonce: crypto.randomUUID() })
+		);
+	} catch (error) {
+		console.error('Failed to relay sync event:', error);
+	}
+}
+
+/**
+ * Listen for state changes.
+ * @returns Unsubscribe function
+ */
+export function subscribeToSyncEvents(listener: SyncListener): () => void {
+	connect();
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
@@ -0,0 +1,153 @@
+/**
+ * Usage data loading and per-key aggregation.
+ */
+
+import type { ApiRequest, UsageDataset } from '@/types/mock-data';
+import {
+	createManagementApiClient,
+	getManagementApiUrl
+} from './managementApi';
+
+export type KeyUsageSummary = {
+	keyId: string;
+	requestCount: number;
+	lastUsedAt: string;
+	lastEndpoint: string;
+	lastMethod: ApiRequest['method'];
+	lastStatusCode: number;
+};
+
+const datasetCache = new Map<'test' | 'production', Promise<UsageDataset>>();
+
+/**
+ * Fetch the usage dataset for an environment.
+ * Datasets are several MB, so the request is shared between callers
+ * and cached for the lifetime of the page. Failed requests are not cached.
+ * Comes from the management API when VITE_API_URL is set, otherwise from
+ * the static files in public/data.
+ */
+export function fetchUsageDataset(
+	environment: 'test' | 'production'
+): Promise<UsageDataset> {
+	const cached = datasetCache.get(environment);
+	if (cached) return cached;
+
+	const apiUrl = getManagementApiUrl();
+	const request = (
+		apiUrl
+			? createManagementApiClient(apiUrl).getUsage(environment)
+			: fetch(`/data/usage-${environment}.json`).then((response) => {
+					if (!response.ok) {
+						throw new Error('Failed to load usage data');
+					}
+					return response.json() as Promise<UsageDataset>;
+				})
+	).catch((error: unknown) => {
+		datasetCache.delete(environment);
+		throw error;
+	});
+
+	datasetCache.set(environment, request);
+	return request;
+}
+
+/**
+ * Summarize requests per key: request count and details of the most recent request.
+ */
+export function summarizeUsageByKey(
+	requests: ApiRequest[]
+): Map<string, KeyUsageSummary> {
+	const summaries = new Map<string, KeyUsageSummary>();
+
+	for (const request of requests) {
+		const existing = summaries.get(request.keyId);
+		if (!existing) {
+			summaries.set(request.keyId, {
+				keyId: request.keyId,
+				requestCount: 1,
+				lastUsedAt: request.timestamp,
+				lastEndpoint: request.endpoint,
+				lastMethod: request.method,
+				lastStatusCode: request.statusCode
+			});
+			continue;
+		}
+
+		existing.requestCount += 1;
+		if (
+			new Date(request.timestamp).getTime() >
+			new Date(existing.lastUsedAt).getTime()
+		) {
+			existing.lastUsedAt = request.timestamp;
+			existing.lastEndpoint = request.endpoint;
+			existing.lastMethod = request.method;
+			existing.lastStatusCode = request.statusCode;
+		}
+	}
+
+	return summaries;
+}
+
+export type EndpointUsage = {
+	endpoint: string;
+	count: number;
+	errorCount: number;
+};
+
+export type DailyRequestCount = {
+	/** UTC day, YYYY-MM-DD */
+	date: string;
+	requests: number;
+	errors: number;
+};
+
+/**
+ * True for 4xx and 5xx responses.
+ */
+export function isErrorStatus(statusCode: number): boolean {
+	return statusCode >= 400;
+}
+
+/**
+ * Most requested endpoints, busiest first.
+ */
+export function getTopEndpoints(
+	requests: ApiRequest[],
+	limit = 5
+): EndpointUsage[] {
+	const byEndpoint = new Map<string, EndpointUsage>();
+
+	for (const request of requests) {
+		const usage = byEndpoint.get(request.endpoint) ?? {
+			endpoint: request.endpoint,
+			count: 0,
+			errorCount: 0
+		};
+		usage.count += 1;
+		if (isErrorStatus(request.statusCode)) usage.errorCount += 1;
+		byEndpoint.set(request.endpoint, usage);
+	}
+
+	return [...byEndpoint.values()]
+		.sort((a, b) => b.count - a.count)
+		.slice(0, limit);
+}
+
+/**
+ * Request and error counts per UTC day, oldest first.
+ */
+export function getDailyRequestCounts(
+	requests: ApiRequest[]
+): DailyRequestCount[] {
+	const byDay = new Map<string, DailyRequestCount>();
+
+	for (const request of requests) {
+		const date = request.timestamp.slice(0, 10);
+		const day = byDay.get(date) ?? { date, requests: 0, errors: 0 };
+		day.requests += 1;
+		if (isErrorStatus(request.statusCode)) day.errors += 1;
+		byDay.set(date, day);
+	}
+
+	return [...byDay.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,138 @@
+/**
+ * Requests made through the sandbox API simulator, kept per environment.
+ * They are merged into the seeded usage datasets, so usage pages show what
+ * was actually done in the sandbox.
+ */
+
+import type { ApiRequest, UsageDataset } from '@/types/mock-data';
+import { createRepository, type RepositorySchema } from './storage';
+import { publishSyncEvent, subscribeToSyncEvents } from './syncBus';
+
+type Environment = 'test' | 'production';
+
+type RecordedUsage = Record<Environment, ApiRequest[]>;
+
+/** Recorded requests kept per environment; the oldest are dropped first */
+export const MAX_RECORDED_REQUESTS = 5000;
+
+const USAGE_LOG_STORAGE_KEY = 'usage_log';
+
+const EMPTY_USAGE: RecordedUsage = { test: [], production: [] };
+
+function isApiRequest(value: unknown): value is ApiRequest {
+	if (typeof value !== 'object' || value === null) return false;
+	const request = value as Record<string, unknown>;
+	return (
+		typeof request.id === 'string' &&
+		typeof request.keyId === 'string' &&
+		typeof request.endpoint === 'string' &&
+		typeof request.method === 'string' &&
+		typeof request.statusCode === 'number' &&
+		typeof request.responseTimeMs === 'number' &&
+		typeof request.timestamp === 'string'
+	);
+}
+
+function validateRecordedUsage(data: unknown): RecordedUsage {
+	const usage = data as Partial<Record<Environment, unknown>> | null;
+	if (
+		typeof usage !== 'object' ||
+		usage === null ||
+		!Array.isArray(usage.test) ||
+		!Array.isArray(usage.production)
+	) {
+		throw new Error('Expected recorded requests for both environments');
+	}
+	return {
+		test: usage.test.filter(isApiRequest),
+		production: usage.production.filter(isApiRequest)
+	};
+}
+
+const USAGE_LOG_SCHEMA: RepositorySchema<RecordedUsage> = {
+	version: 1,
+	migrations: {},
+	validate: validateRecordedUsage
+};
+
+const usageLogRepository = createRepository(
+	USAGE_LOG_STORAGE_KEY,
+	USAGE_LOG_SCHEMA
+);
+
+/** Parsed log and the stored value it was parsed from */
+let cache: { stamp: string | null; usage: RecordedUsage } | null = null;
+
+function loadRecordedUsage(): RecordedUsage {
+	const stamp = usageLogRepository.getRaw();
+	if (cache?.stamp !== stamp) {
+		cache = { stamp, usage: usageLogRepository.get() ?? EMPTY_USAGE };
+	}
+	return cache.usage;
+}
+
+/**
+ * Requests recorded for an environment, oldest first. The same array is
+ * returned until the log changes, so it can be used as a store snapshot.
+ */
+export function getRecordedRequests(environment: Environment): ApiRequest[] {
+	return loadRecordedUsage()[environment];
+}
+
+/**
+ * Append a request to an environment's log.
+ * @throws {Error} If the storage quota is exceeded or storage is unavailable
+ */
+export function recordApiRequest(
+	environment: Environment,
+	request: ApiRequest
+): void {
+	const usage = loadRecordedUsage();
+	usageLogRepository.set({
+		...usage,
+		[environment]: [...usage[environment], request].slice(
+			-MAX_RECORDED_REQUESTS
+		)
+	});
+	publishSyncEvent({ type: 'usage:recorded', environment });
+}
+
+/**
+ * Delete every recorded request.
+ */
+export function clearRecordedRequests(): void {
+	usageLogRepository.remove();
+	publishSyncEvent({ type: 'usage:recorded', environment: 'test' });
+	publishSyncEvent({ type: 'usage:recorded', environment: 'production' });
+}
+
+/**
+ * Listen for requests being recorded, in this tab or another.
+ * @returns Unsubscribe function
+ */
+export function subscribeToRecordedRequests(listener: () => void): () => void {
+	return subscribeToSyncEvents((event) => {
+		if (event.type === 'usage:recorded') listener();
+	});
+}
+
+/**
+ * A dataset with recorded requests added. The end date moves forward to the
+ * latest recorded request, so limits are measured up to it.
+ */
+export function withRecordedRequests(
+	dataset: UsageDataset,
+	recorded: ApiRequest[]
+): UsageDataset {
+	if (recorded.length === 0) return dataset;
+
+	const lastRecordedAt = recorded[recorded.length - 1].timestamp;
+	return {
+		...dataset,
+		endDate:
+			new Date(lastRecordedAt) > new Date(dataset.endDate)
+				? lastRecordedAt
+				: dataset.endDate,
+		requests: [...dataset.requests, ...recorded]
+	};
+}
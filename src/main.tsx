@@ -6,24 +6,29 @@ import { AuthProvider } from './contexts/AuthContext';
 import { EnvironmentProvider } from './contexts/EnvironmentContext';
 import { FeatureFlagsProvider } from './contexts/FeatureFlagsContext';
 import { initializeApiKeys } from './lib/apiKeys';
+import { initializeStorage } from './lib/storage';
 
 document.documentElement.classList.add('dark');
 
-initializeApiKeys();
-
 const rootElement = document.getElementById('root');
 if (!rootElement) {
 	throw new Error('Root element not found');
 }
 
-createRoot(rootElement).render(
-	<StrictMode>
-		<AuthProvider>
-			<EnvironmentProvider>
-				<FeatureFlagsProvider>
-					<App />
-				</FeatureFlagsProvider>
-			</EnvironmentProvider>
-		</AuthProvider>
-	</StrictMode>
-);
+// Render after the storage backend is loaded and stored keys are migrated,
+// so no plaintext secret is ever read
+initializeStorage()
+	.then(initializeApiKeys)
+	.finally(() => {
+		createRoot(rootElement).render(
+			<StrictMode>
+				<AuthProvider>
+					<EnvironmentProvider>
+						<FeatureFlagsProvider>
+							<App />
+						</FeatureFlagsProvider>
+					</EnvironmentProvider>
+				</AuthProvider>
+			</StrictMode>
+		);
+	});
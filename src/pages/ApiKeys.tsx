@@ -1,26 +1,54 @@
-import { FlaskConical, MoreVertical, Plus, Search } from 'lucide-react';
+import {
+	ArrowUpDown,
+	FileKey,
+	FlaskConical,
+	MoreVertical,
+	Plus,
+	ScanSearch,
+	Search,
+	ShieldAlert,
+	Trash2,
+	Wrench
+} from 'lucide-react';
 import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { toast } from 'sonner';
 import { ApiKeyCard } from '@/components/api-keys/ApiKeyCard';
 import { ApiKeyStatusBadge } from '@/components/api-keys/ApiKeyStatusBadge';
+import { BulkActionsBar } from '@/components/api-keys/BulkActionsBar';
+import { CheckKeyModal } from '@/components/api-keys/CheckKeyModal';
 import { CreateKeyModal } from '@/components/api-keys/CreateKeyModal';
-import { RegenerateKeyModal } from '@/components/api-keys/RegenerateKeyModal';
+import { DeleteKeyDialog } from '@/components/api-keys/DeleteKeyDialog';
+import { EditKeyDetailsModal } from '@/components/api-keys/EditKeyDetailsModal';
+import { EditLimitsModal } from '@/components/api-keys/EditLimitsModal';
+import { EditRestrictionsModal } from '@/components/api-keys/EditRestrictionsModal';
+import { EditScopesModal } from '@/components/api-keys/EditScopesModal';
+import { ImportKeyModal } from '@/components/api-keys/ImportKeyModal';
 import {
-	AlertDialog,
-	AlertDialogAction,
-	AlertDialogCancel,
-	AlertDialogContent,
-	AlertDialogDescription,
-	AlertDialogFooter,
-	AlertDialogHeader,
-	AlertDialogTitle
-} from '@/components/ui/alert-dialog';
+	ActiveKeyFilters,
+	KeyFiltersMenu
+} from '@/components/api-keys/KeyFiltersMenu';
+import { KeyHistoryModal } from '@/components/api-keys/KeyHistoryModal';
+import { KeyLastUsed } from '@/components/api-keys/KeyLastUsed';
+import { KeyPagination } from '@/components/api-keys/KeyPagination';
+import { KeyTags } from '@/components/api-keys/KeyTags';
+import { LeakScannerModal } from '@/components/api-keys/LeakScannerModal';
+import { PreviousSecrets } from '@/components/api-keys/PreviousSecrets';
+import { QuotaMeter } from '@/components/api-keys/QuotaMeter';
+import { RegenerateKeyModal } from '@/components/api-keys/RegenerateKeyModal';
+import { RevokeKeyDialog } from '@/components/api-keys/RevokeKeyDialog';
+import { ScopeChips } from '@/components/api-keys/ScopeChips';
+import { SortableTableHead } from '@/components/api-keys/SortableTableHead';
+import { TrashModal } from '@/components/api-keys/TrashModal';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
 	DropdownMenu,
 	DropdownMenuContent,
 	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuRadioGroup,
+	DropdownMenuRadioItem,
 	DropdownMenuSeparator,
 	DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu';
@@ -33,64 +61,281 @@ import {
 	TableHeader,
 	TableRow
 } from '@/components/ui/table';
+import { getKeyDetailPath } from '@/config/routes';
 import { useEnvironment } from '@/contexts/EnvironmentContext';
 import { useFeatureFlags } from '@/contexts/FeatureFlagsContext';
+import { useApiKeys } from '@/hooks/useApiKeys';
+import { useUsageDataset } from '@/hooks/useUsageDataset';
 import {
 	type ApiKey,
-	deleteApiKey,
-	getApiKeys,
-	maskApiKey,
-	revokeApiKey
+	canDeleteApiKey,
+	getMaskedKey,
+	isApiKeyActive
 } from '@/lib/apiKeys';
 import { formatRelativeTime } from '@/lib/dateUtils';
+import {
+	collectFilterOptions,
+	hasKeyFilters,
+	type KeyFilters,
+	matchesKeyFilters,
+	matchesSearch
+} from '@/lib/keyFilters';
+import {
+	getDefaultSortDirection,
+	KEY_SORT_LABELS,
+	type KeyListQuery,
+	type KeySortField,
+	paginate,
+	parseKeyListQuery,
+	type SortDirection,
+	sortKeys,
+	toKeyListSearchParams
+} from '@/lib/keyListQuery';
+import {
+	computeQuotaUsage,
+	getUsageReferenceDate,
+	type KeyQuotaUsage
+} from '@/lib/quotas';
+import {
+	isKeySyncEvent,
+	type KeySyncEvent,
+	subscribeToSyncEvents
+} from '@/lib/syncBus';
+import { type KeyUsageSummary, summarizeUsageByKey } from '@/lib/usage';
+
+const REMOTE_CHANGE_VERBS: Record<KeySyncEvent['type'], string> = {
+	'key:created': 'created',
+	'key:updated': 'updated',
+	'key:revoked': 'revoked',
+	'key:deleted': 'deleted'
+};
+
+/**
+ * Toast text for a key change made in another tab, e.g. "2 keys revoked in another tab".
+ */
+function describeRemoteKeyChange(event: KeySyncEvent): string {
+	const count = event.keyIds.length;
+	return `${count === 1 ? 'API key' : `${count} API keys`} ${REMOTE_CHANGE_VERBS[event.type]} in another tab`;
+}
 
 export function ApiKeys() {
 	const { mode } = useEnvironment();
 	const { isEnabled } = useFeatureFlags();
-	const [searchQuery, setSearchQuery] = useState('');
+	const [searchParams, setSearchParams] = useSearchParams();
 	const [createModalOpen, setCreateModalOpen] = useState(false);
 	const [regenerateModalOpen, setRegenerateModalOpen] = useState(false);
 	const [keyToRegenerate, setKeyToRegenerate] = useState<ApiKey | null>(null);
-	const [updateTrigger, setUpdateTrigger] = useState(0);
+	const [editScopesModalOpen, setEditScopesModalOpen] = useState(false);
+	const [keyToEditScopes, setKeyToEditScopes] = useState<ApiKey | null>(null);
+	const [editDetailsModalOpen, setEditDetailsModalOpen] = useState(false);
+	const [keyToEditDetails, setKeyToEditDetails] = useState<ApiKey | null>(null);
+	const [editRestrictionsModalOpen, setEditRestrictionsModalOpen] =
+		useState(false);
+	const [keyToEditRestrictions, setKeyToEditRestrictions] =
+		useState<ApiKey | null>(null);
+	const [editLimitsModalOpen, setEditLimitsModalOpen] = useState(false);
+	const [keyToEditLimits, setKeyToEditLimits] = useState<ApiKey | null>(null);
+	const [historyModalOpen, setHistoryModalOpen] = useState(false);
+	const [trashModalOpen, setTrashModalOpen] = useState(false);
+	const [checkKeyModalOpen, setCheckKeyModalOpen] = useState(false);
+	const [leakScannerOpen, setLeakScannerOpen] = useState(false);
+	const [importKeyModalOpen, setImportKeyModalOpen] = useState(false);
+	const [keyForHistory, setKeyForHistory] = useState<ApiKey | null>(null);
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+	const { data: usageData } = useUsageDataset(mode);
+	const {
+		keys: environmentKeys,
+		loading: keysLoading,
+		error: keysError,
+		reload: reloadKeys
+	} = useApiKeys({ environment: mode });
 
 	const useCardView = isEnabled('cardViewForApiKeys');
 
-	const handleKeyUpdate = useCallback(() => {
-		setUpdateTrigger((prev) => prev + 1);
+	const usageByKey = useMemo(
+		() => summarizeUsageByKey(usageData?.requests ?? []),
+		[usageData]
+	);
+
+	const query = useMemo(() => parseKeyListQuery(searchParams), [searchParams]);
+	const { search: searchQuery, filters, sort } = query;
+
+	/**
+	 * Apply changes to the list state in the URL. Anything that changes which
+	 * keys are listed goes back to the first page.
+	 */
+	const updateQuery = useCallback(
+		(changes: Partial<KeyListQuery>) => {
+			setSearchParams(
+				toKeyListSearchParams({ ...query, page: 1, ...changes }),
+				{ replace: true }
+			);
+		},
+		[query, setSearchParams]
+	);
+
+	const setFilters = useCallback(
+		(next: KeyFilters) => updateQuery({ filters: next }),
+		[updateQuery]
+	);
+
+	const handleSort = useCallback(
+		(field: KeySortField) => {
+			updateQuery({
+				sort: {
+					field,
+					direction:
+						sort.field === field
+							? sort.direction === 'asc'
+								? 'desc'
+								: 'asc'
+							: getDefaultSortDirection(field)
+				}
+			});
+		},
+		[sort, updateQuery]
+	);
+
+	useEffect(
+		() =>
+			subscribeToSyncEvents((event, source) => {
+				if (source !== 'remote' || !isKeySyncEvent(event)) return;
+				toast.info(describeRemoteKeyChange(event));
+			}),
+		[]
+	);
+
+	const handleEditScopes = useCallback((apiKey: ApiKey) => {
+		setKeyToEditScopes(apiKey);
+		setEditScopesModalOpen(true);
 	}, []);
 
-	useEffect(() => {
-		const handleStorageChange = (e: StorageEvent) => {
-			if (e.key === 'api_keys') {
-				handleKeyUpdate();
-				toast.info('API keys updated in another tab');
-			}
-		};
+	const handleEditDetails = useCallback((apiKey: ApiKey) => {
+		setKeyToEditDetails(apiKey);
+		setEditDetailsModalOpen(true);
+	}, []);
+
+	const handleEditRestrictions = useCallback((apiKey: ApiKey) => {
+		setKeyToEditRestrictions(apiKey);
+		setEditRestrictionsModalOpen(true);
+	}, []);
+
+	const handleEditLimits = useCallback((apiKey: ApiKey) => {
+		setKeyToEditLimits(apiKey);
+		setEditLimitsModalOpen(true);
+	}, []);
 
-		window.addEventListener('storage', handleStorageChange);
-		return () => window.removeEventListener('storage', handleStorageChange);
-	}, [handleKeyUpdate]);
+	const handleViewHistory = useCallback((apiKey: ApiKey) => {
+		setKeyForHistory(apiKey);
+		setHistoryModalOpen(true);
+	}, []);
 
-	// biome-ignore lint/correctness/useExhaustiveDependencies: updateTrigger counter intentionally triggers refetch
-	const allKeys = useMemo(() => getApiKeys(), [updateTrigger]);
+	const quotaByKey = useMemo(
+		() =>
+			computeQuotaUsage(
+				environmentKeys,
+				usageData?.requests ?? [],
+				getUsageReferenceDate(usageData)
+			),
+		[environmentKeys, usageData]
+	);
 
-	const environmentKeys = useMemo(
-		() => allKeys.filter((key) => key.environment === mode),
-		[allKeys, mode]
+	const filterOptions = useMemo(
+		() => collectFilterOptions(environmentKeys),
+		[environmentKeys]
 	);
 
 	const filteredKeys = useMemo(() => {
-		if (!searchQuery.trim()) {
-			return environmentKeys;
-		}
-
-		const query = searchQuery.toLowerCase();
+		const now = new Date();
 		return environmentKeys.filter(
 			(key) =>
-				key.name.toLowerCase().includes(query) ||
-				key.key.toLowerCase().includes(query)
+				matchesSearch(key, searchQuery) && matchesKeyFilters(key, filters, now)
 		);
-	}, [environmentKeys, searchQuery]);
+	}, [environmentKeys, searchQuery, filters]);
+
+	const sortedKeys = useMemo(
+		() => sortKeys(filteredKeys, sort, usageByKey),
+		[filteredKeys, sort, usageByKey]
+	);
+
+	const {
+		items: pageKeys,
+		page,
+		pageCount
+	} = useMemo(
+		() => paginate(sortedKeys, query.page, query.pageSize),
+		[sortedKeys, query.page, query.pageSize]
+	);
+
+	// Only keys matching the current filter count as selected
+	const selectedKeys = useMemo(
+		() => sortedKeys.filter((key) => selectedIds.has(key.id)),
+		[sortedKeys, selectedIds]
+	);
+	const pageSelectedCount = pageKeys.filter((key) =>
+		selectedIds.has(key.id)
+	).length;
+	const allSelected =
+		pageKeys.length > 0 && pageSelectedCount === pageKeys.length;
+
+	const handleToggleSelected = useCallback((id: string) => {
+		setSelectedIds((prev) => {
+			const next = new Set(prev);
+			if (next.has(id)) {
+				next.delete(id);
+			} else {
+				next.add(id);
+			}
+			return next;
+		});
+	}, []);
+
+	// Selects or clears the keys on the current page, keeping selections on other pages
+	const handleToggleAll = () => {
+		setSelectedIds((prev) => {
+			const next = new Set(prev);
+			for (const key of pageKeys) {
+				if (allSelected) {
+					next.delete(key.id);
+				} else {
+					next.add(key.id);
+				}
+			}
+			return next;
+		});
+	};
+
+	const handleSelectAllMatching = () => {
+		setSelectedIds(new Set(sortedKeys.map((key) => key.id)));
+	};
+
+	const pageCheckbox = (
+		<input
+			type="checkbox"
+			className="h-4 w-4 cursor-pointer accent-primary"
+			aria-label="Select all keys on this page"
+			checked={allSelected}
+			ref={(el) => {
+				if (el) {
+					el.indeterminate = pageSelectedCount > 0 && !allSelected;
+				}
+			}}
+			onChange={handleToggleAll}
+		/>
+	);
+
+	const pagination = (
+		<KeyPagination
+			page={page}
+			pageCount={pageCount}
+			pageSize={query.pageSize}
+			filteredCount={filteredKeys.length}
+			totalCount={environmentKeys.length}
+			onPageChange={(next) => updateQuery({ page: next })}
+			onPageSizeChange={(pageSize) => updateQuery({ pageSize })}
+		/>
+	);
 
 	return (
 		<div className="flex-1 p-6 md:p-12">
@@ -119,10 +364,85 @@ export function ApiKeys() {
 								placeholder="Filter keys..."
 								className="pl-9"
 								value={searchQuery}
-								onChange={(e) => setSearchQuery(e.target.value)}
+								onChange={(e) => updateQuery({ search: e.target.value })}
 							/>
 						</div>
 
+						<KeyFiltersMenu
+							value={filters}
+							onChange={setFilters}
+							owners={filterOptions.owners}
+							tags={filterOptions.tags}
+						/>
+
+						<DropdownMenu>
+							<DropdownMenuTrigger asChild>
+								<Button variant="outline" className="gap-2 whitespace-nowrap">
+									<ArrowUpDown className="h-4 w-4" />
+									{KEY_SORT_LABELS[sort.field]}
+								</Button>
+							</DropdownMenuTrigger>
+							<DropdownMenuContent align="end">
+								<DropdownMenuLabel>Sort by</DropdownMenuLabel>
+								<DropdownMenuRadioGroup
+									value={sort.field}
+									onValueChange={(value) => handleSort(value as KeySortField)}
+								>
+									{(Object.keys(KEY_SORT_LABELS) as KeySortField[]).map(
+										(field) => (
+											<DropdownMenuRadioItem key={field} value={field}>
+												{KEY_SORT_LABELS[field]}
+											</DropdownMenuRadioItem>
+										)
+									)}
+								</DropdownMenuRadioGroup>
+								<DropdownMenuSeparator />
+								<DropdownMenuRadioGroup
+									value={sort.direction}
+									onValueChange={(direction) =>
+										updateQuery({
+											sort: { ...sort, direction: direction as SortDirection }
+										})
+									}
+								>
+									<DropdownMenuRadioItem value="asc">
+										Ascending
+									</DropdownMenuRadioItem>
+									<DropdownMenuRadioItem value="desc">
+										Descending
+									</DropdownMenuRadioItem>
+								</DropdownMenuRadioGroup>
+							</DropdownMenuContent>
+						</DropdownMenu>
+
+						<DropdownMenu>
+							<DropdownMenuTrigger asChild>
+								<Button variant="outline" className="gap-2 whitespace-nowrap">
+									<Wrench className="h-4 w-4" />
+									Tools
+								</Button>
+							</DropdownMenuTrigger>
+							<DropdownMenuContent align="end">
+								<DropdownMenuItem onClick={() => setCheckKeyModalOpen(true)}>
+									<ScanSearch />
+									Check a key
+								</DropdownMenuItem>
+								<DropdownMenuItem onClick={() => setLeakScannerOpen(true)}>
+									<ShieldAlert />
+									Scan for leaked keys
+								</DropdownMenuItem>
+								<DropdownMenuItem onClick={() => setImportKeyModalOpen(true)}>
+									<FileKey />
+									Import encrypted key file
+								</DropdownMenuItem>
+								<DropdownMenuSeparator />
+								<DropdownMenuItem onClick={() => setTrashModalOpen(true)}>
+									<Trash2 />
+									Trash
+								</DropdownMenuItem>
+							</DropdownMenuContent>
+						</DropdownMenu>
+
 						<Button
 							className="gap-2 whitespace-nowrap"
 							onClick={() => setCreateModalOpen(true)}
@@ -133,33 +453,73 @@ export function ApiKeys() {
 					</div>
 				</div>
 
-				{filteredKeys.length === 0 ? (
+				<ActiveKeyFilters value={filters} onChange={setFilters} />
+
+				{keysError && (
+					<div className="flex items-center justify-between gap-4 rounded-xl border border-destructive/50 bg-destructive/10 p-4">
+						<p className="text-sm font-medium text-destructive">
+							Failed to load API keys: {keysError}
+						</p>
+						<Button variant="outline" size="sm" onClick={reloadKeys}>
+							Retry
+						</Button>
+					</div>
+				)}
+
+				<BulkActionsBar
+					selectedKeys={selectedKeys}
+					matchingCount={sortedKeys.length}
+					usageByKey={usageByKey}
+					onSelectAllMatching={handleSelectAllMatching}
+					onClearSelection={() => setSelectedIds(new Set())}
+				/>
+
+				{keysLoading && filteredKeys.length === 0 ? (
+					<div className="flex items-center justify-center py-12">
+						<div className="text-center">
+							<div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+							<p className="mt-4 text-sm text-muted-foreground">
+								Loading API keys...
+							</p>
+						</div>
+					</div>
+				) : filteredKeys.length === 0 ? (
 					<div className="overflow-hidden rounded-xl border border-border-dark bg-surface-dark shadow-sm-dark">
 						<EmptyState
-							hasSearch={Boolean(searchQuery.trim())}
+							hasSearch={Boolean(searchQuery.trim()) || hasKeyFilters(filters)}
 							onCreateClick={() => setCreateModalOpen(true)}
 						/>
 					</div>
 				) : useCardView ? (
 					<>
+						<div className="flex items-center gap-2 px-1 text-sm text-muted-foreground">
+							{pageCheckbox}
+							<span>Select all on this page</span>
+						</div>
 						<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-							{filteredKeys.map((key) => (
+							{pageKeys.map((key) => (
 								<ApiKeyCard
 									key={key.id}
 									apiKey={key}
-									onUpdate={handleKeyUpdate}
+									usage={usageByKey.get(key.id)}
+									quota={quotaByKey.get(key.id)}
 									onRegenerate={(apiKey) => {
 										setKeyToRegenerate(apiKey);
 										setRegenerateModalOpen(true);
 									}}
+									onEditScopes={handleEditScopes}
+									onEditDetails={handleEditDetails}
+									onEditRestrictions={handleEditRestrictions}
+									onEditLimits={handleEditLimits}
+									onViewHistory={handleViewHistory}
+									selected={selectedIds.has(key.id)}
+									onToggleSelected={handleToggleSelected}
 								/>
 							))}
 						</div>
 
-						<div className="flex items-center justify-between rounded-xl border border-border-dark bg-surface-dark px-4 py-3 shadow-sm-dark">
-							<div className="text-sm text-muted-foreground">
-								Showing {filteredKeys.length} of {environmentKeys.length} keys
-							</div>
+						<div className="rounded-xl border border-border-dark bg-surface-dark px-4 py-3 shadow-sm-dark">
+							{pagination}
 						</div>
 					</>
 				) : (
@@ -168,37 +528,73 @@ export function ApiKeys() {
 							<Table>
 								<TableHeader>
 									<TableRow>
-										<TableHead className="w-1/4 pl-4">Name</TableHead>
-										<TableHead className="w-1/4">API Key</TableHead>
-										<TableHead className="w-1/6">Created</TableHead>
-										<TableHead className="w-1/6">Last Used</TableHead>
-										<TableHead className="w-1/12">Status</TableHead>
+										<TableHead className="w-10 pl-4">{pageCheckbox}</TableHead>
+										<SortableTableHead
+											field="name"
+											sort={sort}
+											onSort={handleSort}
+											className="w-1/5"
+										>
+											Name
+										</SortableTableHead>
+										<TableHead className="w-1/5">API Key</TableHead>
+										<TableHead className="w-1/5">Scopes</TableHead>
+										<TableHead className="w-1/6">Owner &amp; Tags</TableHead>
+										<SortableTableHead
+											field="created"
+											sort={sort}
+											onSort={handleSort}
+											className="w-1/6"
+										>
+											Created
+										</SortableTableHead>
+										<SortableTableHead
+											field="lastUsed"
+											sort={sort}
+											onSort={handleSort}
+											className="w-1/6"
+										>
+											Last Used
+										</SortableTableHead>
+										<TableHead className="w-1/6">Quota</TableHead>
+										<SortableTableHead
+											field="status"
+											sort={sort}
+											onSort={handleSort}
+											className="w-1/12"
+										>
+											Status
+										</SortableTableHead>
 										<TableHead className="w-[60px] text-right">
 											Actions
 										</TableHead>
 									</TableRow>
 								</TableHeader>
 								<TableBody>
-									{filteredKeys.map((key) => (
+									{pageKeys.map((key) => (
 										<KeyRow
 											key={key.id}
 											apiKey={key}
-											onUpdate={handleKeyUpdate}
+											usage={usageByKey.get(key.id)}
+											quota={quotaByKey.get(key.id)}
+											selected={selectedIds.has(key.id)}
+											onToggleSelected={handleToggleSelected}
 											onRegenerate={(apiKey) => {
 												setKeyToRegenerate(apiKey);
 												setRegenerateModalOpen(true);
 											}}
+											onEditScopes={handleEditScopes}
+											onEditDetails={handleEditDetails}
+											onEditRestrictions={handleEditRestrictions}
+											onEditLimits={handleEditLimits}
+											onViewHistory={handleViewHistory}
 										/>
 									))}
 								</TableBody>
 							</Table>
 						</div>
 
-						<div className="flex items-center justify-between border-t px-4 py-3">
-							<div className="text-sm text-muted-foreground">
-								Showing {filteredKeys.length} of {environmentKeys.length} keys
-							</div>
-						</div>
+						<div className="border-t px-4 py-3">{pagination}</div>
 					</div>
 				)}
 			</div>
@@ -206,7 +602,36 @@ export function ApiKeys() {
 			<CreateKeyModal
 				open={createModalOpen}
 				onOpenChange={setCreateModalOpen}
-				onKeyCreated={handleKeyUpdate}
+			/>
+
+			<EditScopesModal
+				open={editScopesModalOpen}
+				onOpenChange={setEditScopesModalOpen}
+				apiKey={keyToEditScopes}
+			/>
+
+			<EditKeyDetailsModal
+				open={editDetailsModalOpen}
+				onOpenChange={setEditDetailsModalOpen}
+				apiKey={keyToEditDetails}
+			/>
+
+			<EditRestrictionsModal
+				open={editRestrictionsModalOpen}
+				onOpenChange={setEditRestrictionsModalOpen}
+				apiKey={keyToEditRestrictions}
+			/>
+
+			<EditLimitsModal
+				open={editLimitsModalOpen}
+				onOpenChange={setEditLimitsModalOpen}
+				apiKey={keyToEditLimits}
+			/>
+
+			<KeyHistoryModal
+				open={historyModalOpen}
+				onOpenChange={setHistoryModalOpen}
+				apiKey={keyForHistory}
 			/>
 
 			<RegenerateKeyModal
@@ -215,8 +640,8 @@ export function ApiKeys() {
 				apiKey={keyToRegenerate}
 				onKeyRegenerated={() => {
 					if (keyToRegenerate) {
-						const wasRevoked = keyToRegenerate.revoked;
-						if (wasRevoked) {
+						const wasInactive = !isApiKeyActive(keyToRegenerate);
+						if (wasInactive) {
 							toast.success(
 								`API key "${keyToRegenerate.name}" has been regenerated and reactivated`
 							);
@@ -226,9 +651,30 @@ export function ApiKeys() {
 							);
 						}
 					}
-					handleKeyUpdate();
 				}}
 			/>
+
+			<CheckKeyModal
+				open={checkKeyModalOpen}
+				onOpenChange={setCheckKeyModalOpen}
+				environment={mode}
+			/>
+
+			<LeakScannerModal
+				open={leakScannerOpen}
+				onOpenChange={setLeakScannerOpen}
+			/>
+
+			<ImportKeyModal
+				open={importKeyModalOpen}
+				onOpenChange={setImportKeyModalOpen}
+			/>
+
+			<TrashModal
+				open={trashModalOpen}
+				onOpenChange={setTrashModalOpen}
+				environment={mode}
+			/>
 		</div>
 	);
 }
@@ -239,57 +685,96 @@ export function ApiKeys() {
  */
 function KeyRow({
 	apiKey,
-	onUpdate,
-	onRegenerate
+	usage,
+	quota,
+	selected,
+	onToggleSelected,
+	onRegenerate,
+	onEditScopes,
+	onEditDetails,
+	onEditRestrictions,
+	onEditLimits,
+	onViewHistory
 }: {
 	apiKey: ApiKey;
-	onUpdate: () => void;
+	usage?: KeyUsageSummary;
+	quota?: KeyQuotaUsage;
+	selected: boolean;
+	onToggleSelected: (id: string) => void;
 	onRegenerate: (apiKey: ApiKey) => void;
+	onEditScopes: (apiKey: ApiKey) => void;
+	onEditDetails: (apiKey: ApiKey) => void;
+	onEditRestrictions: (apiKey: ApiKey) => void;
+	onEditLimits: (apiKey: ApiKey) => void;
+	onViewHistory: (apiKey: ApiKey) => void;
 }) {
 	const [revokeDialogOpen, setRevokeDialogOpen] = useState(false);
 	const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-
-	const handleRevokeConfirm = () => {
-		const success = revokeApiKey(apiKey.id);
-		if (success) {
-			toast.success(`API key "${apiKey.name}" has been revoked`);
-			onUpdate();
-		} else {
-			toast.error('Failed to revoke API key');
-		}
-		setRevokeDialogOpen(false);
-	};
-
-	const handleDeleteConfirm = () => {
-		const success = deleteApiKey(apiKey.id);
-		if (success) {
-			toast.success(`API key "${apiKey.name}" has been deleted`);
-			onUpdate();
-		} else {
-			toast.error('Failed to delete API key');
-		}
-		setDeleteDialogOpen(false);
-	};
+	const canDelete = canDeleteApiKey(apiKey);
 
 	return (
 		<>
-			<TableRow>
-				<TableCell className="pl-4 font-semibold">{apiKey.name}</TableCell>
+			<TableRow data-state={selected ? 'selected' : undefined}>
+				<TableCell className="pl-4">
+					<input
+						type="checkbox"
+						className="h-4 w-4 cursor-pointer accent-primary"
+						aria-label={`Select ${apiKey.name}`}
+						checked={selected}
+						onChange={() => onToggleSelected(apiKey.id)}
+					/>
+				</TableCell>
+				<TableCell>
+					<Link
+						to={getKeyDetailPath(apiKey.id)}
+						className="font-semibold hover:underline"
+					>
+						{apiKey.name}
+					</Link>
+					{apiKey.description && (
+						<div
+							className="max-w-[240px] truncate text-xs text-muted-foreground"
+							title={apiKey.description}
+						>
+							{apiKey.description}
+						</div>
+					)}
+				</TableCell>
 
 				<TableCell>
 					<code className="font-mono text-sm text-muted-foreground">
-						{maskApiKey(apiKey.key)}
+						{getMaskedKey(apiKey)}
 					</code>
+					<PreviousSecrets apiKey={apiKey} />
+				</TableCell>
+
+				<TableCell>
+					<ScopeChips scopes={apiKey.scopes} max={2} />
+				</TableCell>
+
+				<TableCell>
+					<div className="flex flex-col gap-1">
+						<span className="text-sm text-muted-foreground">
+							{apiKey.owner || 'No owner'}
+						</span>
+						<KeyTags tags={apiKey.tags ?? []} max={2} />
+					</div>
 				</TableCell>
 
 				<TableCell className="text-muted-foreground">
 					{formatRelativeTime(apiKey.createdAt)}
 				</TableCell>
 
-				<TableCell className="text-muted-foreground">Never</TableCell>
+				<TableCell className="text-muted-foreground">
+					<KeyLastUsed usage={usage} />
+				</TableCell>
+
+				<TableCell>
+					<QuotaMeter quota={quota} compact />
+				</TableCell>
 
 				<TableCell>
-					<ApiKeyStatusBadge revoked={apiKey.revoked} />
+					<ApiKeyStatusBadge apiKey={apiKey} />
 				</TableCell>
 
 				<TableCell className="text-right">
@@ -301,69 +786,53 @@ function KeyRow({
 							</Button>
 						</DropdownMenuTrigger>
 						<DropdownMenuContent align="end">
+							<DropdownMenuItem onClick={() => onEditDetails(apiKey)}>
+								Edit details
+							</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => onEditScopes(apiKey)}>
+								Edit scopes
+							</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => onEditRestrictions(apiKey)}>
+								Edit restrictions
+							</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => onEditLimits(apiKey)}>
+								Edit limits
+							</DropdownMenuItem>
 							<DropdownMenuItem onClick={() => onRegenerate(apiKey)}>
 								Regenerate
 							</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => onViewHistory(apiKey)}>
+								View history
+							</DropdownMenuItem>
 							<DropdownMenuSeparator />
 							<DropdownMenuItem
 								className="text-destructive"
 								onClick={() => {
-									if (apiKey.revoked) {
+									if (canDelete) {
 										setDeleteDialogOpen(true);
 									} else {
 										setRevokeDialogOpen(true);
 									}
 								}}
 							>
-								{apiKey.revoked ? 'Delete' : 'Revoke'}
+								{canDelete ? 'Delete' : 'Revoke'}
 							</DropdownMenuItem>
 						</DropdownMenuContent>
 					</DropdownMenu>
 				</TableCell>
 			</TableRow>
 
-			<AlertDialog open={revokeDialogOpen} onOpenChange={setRevokeDialogOpen}>
-				<AlertDialogContent>
-					<AlertDialogHeader>
-						<AlertDialogTitle>Revoke API Key?</AlertDialogTitle>
-						<AlertDialogDescription>
-							Are you sure you want to revoke "{apiKey.name}"? This action will
-							immediately invalidate the key and prevent it from making any
-							further API requests.
-						</AlertDialogDescription>
-					</AlertDialogHeader>
-					<AlertDialogFooter>
-						<AlertDialogCancel>Cancel</AlertDialogCancel>
-						<AlertDialogAction
-							onClick={handleRevokeConfirm}
-							className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-						>
-							Revoke Key
-						</AlertDialogAction>
-					</AlertDialogFooter>
-				</AlertDialogContent>
-			</AlertDialog>
-
-			<AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-				<AlertDialogContent>
-					<AlertDialogHeader>
-						<AlertDialogTitle>Delete API Key?</AlertDialogTitle>
-						<AlertDialogDescription>
-							Are you sure you want to permanently delete "{apiKey.name}"? This
-							action cannot be undone. The key is already revoked and inactive.
-						</AlertDialogDescription>
-					</AlertDialogHeader>
-					<AlertDialogFooter>
-						<AlertDialogCancel>Cancel</AlertDialogCancel>
-						<AlertDialogAction
-							onClick={handleDeleteConfirm}
-							className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-						>
-							Delete Key
-						</AlertDialogAction>
-					</AlertDialogFooter>
-				</AlertDialogContent>
-			</AlertDialog>
+			<RevokeKeyDialog
+				open={revokeDialogOpen}
+				onOpenChange={setRevokeDialogOpen}
+				apiKey={apiKey}
+			/>
+
+			<DeleteKeyDialog
+				open={deleteDialogOpen}
+				onOpenChange={setDeleteDialogOpen}
+				apiKey={apiKey}
+			/>
 		</>
 	);
 }
@@ -15,25 +15,71 @@ import { QuickActionCard } from '@/components/dashboard/QuickActionCard';
 import { PageLayout } from '@/components/layout/PageLayout';
 import { useAuth } from '@/contexts/AuthContext';
 import { useEnvironment } from '@/contexts/EnvironmentContext';
-import { getApiKeys } from '@/lib/apiKeys';
+import { useApiKeys } from '@/hooks/useApiKeys';
+import { useUsageDataset } from '@/hooks/useUsageDataset';
+import { isApiKeyActive } from '@/lib/apiKeys';
+import {
+	computeQuotaUsage,
+	getUsageRatio,
+	getUsageReferenceDate
+} from '@/lib/quotas';
 
 export function Dashboard() {
 	const { user } = useAuth();
 	const { mode } = useEnvironment();
 	const firstName = user?.name.split(' ')[0] || 'Guest';
 
+	const { data: usageData } = useUsageDataset(mode);
+
+	const { keys: environmentKeys } = useApiKeys({ environment: mode });
+
 	const keyMetrics = useMemo(() => {
-		const allKeys = getApiKeys();
-		const environmentKeys = allKeys.filter((key) => key.environment === mode);
-		const activeKeys = environmentKeys.filter((key) => !key.revoked);
-		const inactiveKeys = environmentKeys.filter((key) => key.revoked);
+		const activeKeys = environmentKeys.filter((key) => isApiKeyActive(key));
+		const inactiveKeys = environmentKeys.filter((key) => !isApiKeyActive(key));
 
 		return {
 			active: activeKeys.length,
 			inactive: inactiveKeys.length,
 			total: environmentKeys.length
 		};
-	}, [mode]);
+	}, [environmentKeys]);
+
+	// Active keys at or close to their limits, closest to the limit first
+	const quotaAlerts = useMemo(() => {
+		const quotas = computeQuotaUsage(
+			environmentKeys,
+			usageData?.requests ?? [],
+			getUsageReferenceDate(usageData)
+		);
+
+		return environmentKeys
+			.filter((key) => isApiKeyActive(key))
+			.flatMap((key) => {
+				const quota = quotas.get(key.id);
+				if (quota?.state !== 'near' && quota?.state !== 'exceeded') return [];
+
+				const monthlyRatio = getUsageRatio(
+					quota.monthlyUsed,
+					quota.monthlyLimit
+				);
+				const rateRatio = getUsageRatio(
+					quota.peakRequestsPerMinute,
+					quota.rateLimitPerMinute
+				);
+				return [
+					{
+						key,
+						state: quota.state,
+						ratio: Math.max(monthlyRatio, rateRatio),
+						description:
+							monthlyRatio >= rateRatio
+								? `${key.name}: ${Math.round(monthlyRatio * 100)}% of monthly quota used`
+								: `${key.name}: peak of ${quota.peakRequestsPerMinute} of ${quota.rateLimitPerMinute} requests per minute`
+					}
+				];
+			})
+			.sort((a, b) => b.ratio - a.ratio);
+	}, [environmentKeys, usageData]);
 
 	return (
 		<PageLayout
@@ -106,13 +152,20 @@ export function Dashboard() {
 							description="Status: 401 Unauthorized"
 							timestamp="1h ago"
 						/>
-						<ActivityItem
-							icon={AlertTriangle}
-							iconColor="warning"
-							title="Usage Limit Reached"
-							description="85% of monthly quota used"
-							timestamp="3h ago"
-						/>
+						{quotaAlerts.map((alert) => (
+							<ActivityItem
+								key={alert.key.id}
+								icon={AlertTriangle}
+								iconColor={alert.state === 'exceeded' ? 'error' : 'warning'}
+								title={
+									alert.state === 'exceeded'
+										? 'Usage Limit Reached'
+										: 'Approaching Usage Limit'
+								}
+								description={alert.description}
+								timestamp="This month"
+							/>
+						))}
 					</ul>
 				</div>
 
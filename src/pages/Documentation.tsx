@@ -137,13 +137,31 @@ export function Documentation() {
 									<code className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs">
 										/public/data/
 									</code>
-									. This data won't change based on your actions - it's for
-									demonstration only.
+									, plus every request you send from the{' '}
+									<Link to="/sandbox" className="text-primary hover:underline">
+										Sandbox
+									</Link>
+									.
 								</p>
 							</li>
 							<li className="text-muted-foreground">
 								<span className="font-semibold text-foreground">
-									3. Explore API Key Management
+									3. Send Sandbox Requests
+								</span>
+								<p className="mt-1">
+									Paste a key into the Sandbox and call the simulated{' '}
+									<code className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs">
+										/api/*
+									</code>{' '}
+									endpoints. Keys are checked like the real API would check
+									them: revoked or unknown keys get 401, keys for the other
+									environment or without the needed scope get 403. Requests are
+									saved alongside your keys.
+								</p>
+							</li>
+							<li className="text-muted-foreground">
+								<span className="font-semibold text-foreground">
+									4. Explore API Key Management
 								</span>
 								<p className="mt-1">
 									Try revoking, regenerating, and deleting keys to understand
@@ -154,7 +172,7 @@ export function Documentation() {
 							</li>
 							<li className="text-muted-foreground">
 								<span className="font-semibold text-foreground">
-									4. Toggle Between Environments
+									5. Toggle Between Environments
 								</span>
 								<p className="mt-1">
 									Use the Test/Production toggle in the header to switch
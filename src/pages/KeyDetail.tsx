@@ -0,0 +1,484 @@
+import {
+	ArrowLeft,
+	Ban,
+	History,
+	KeyRound,
+	Pencil,
+	RefreshCw,
+	Trash2
+} from 'lucide-react';
+import { type ReactNode, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+	Area,
+	AreaChart,
+	CartesianGrid,
+	ResponsiveContainer,
+	Tooltip,
+	XAxis,
+	YAxis
+} from 'recharts';
+import { toast } from 'sonner';
+import { ApiKeyStatusBadge } from '@/components/api-keys/ApiKeyStatusBadge';
+import { DeleteKeyDialog } from '@/components/api-keys/DeleteKeyDialog';
+import { EditKeyDetailsModal } from '@/components/api-keys/EditKeyDetailsModal';
+import { EditLimitsModal } from '@/components/api-keys/EditLimitsModal';
+import { EditRestrictionsModal } from '@/components/api-keys/EditRestrictionsModal';
+import { EditScopesModal } from '@/components/api-keys/EditScopesModal';
+import { KeyHistoryModal } from '@/components/api-keys/KeyHistoryModal';
+import { KeyLastUsed } from '@/components/api-keys/KeyLastUsed';
+import { KeyRestrictions } from '@/components/api-keys/KeyRestrictions';
+import { KeyTags } from '@/components/api-keys/KeyTags';
+import { PreviousSecrets } from '@/components/api-keys/PreviousSecrets';
+import { QuotaMeter } from '@/components/api-keys/QuotaMeter';
+import { RegenerateKeyModal } from '@/components/api-keys/RegenerateKeyModal';
+import { RevokeKeyDialog } from '@/components/api-keys/RevokeKeyDialog';
+import { ScopeChips } from '@/components/api-keys/ScopeChips';
+import { Button } from '@/components/ui/button';
+import { getKeyDetailPath } from '@/config/routes';
+import { useApiKeys } from '@/hooks/useApiKeys';
+import { useUsageDataset } from '@/hooks/useUsageDataset';
+import {
+	canDeleteApiKey,
+	getLastRotatedAt,
+	getMaskedKey,
+	isApiKeyActive
+} from '@/lib/apiKeys';
+import { formatDate, formatRelativeTime } from '@/lib/dateUtils';
+import { computeQuotaUsage, getUsageReferenceDate } from '@/lib/quotas';
+import {
+	getDailyRequestCounts,
+	getTopEndpoints,
+	isErrorStatus,
+	summarizeUsageByKey
+} from '@/lib/usage';
+
+type KeyModal =
+	| 'details'
+	| 'scopes'
+	| 'restrictions'
+	| 'limits'
+	| 'regenerate'
+	| 'history'
+	| 'revoke'
+	| 'delete';
+
+interface DetailFieldProps {
+	label: string;
+	children: ReactNode;
+}
+
+function DetailField({ label, children }: DetailFieldProps) {
+	return (
+		<div>
+			<dt className="text-xs font-medium text-muted-foreground mb-1">
+				{label}
+			</dt>
+			<dd className="text-sm">{children}</dd>
+		</div>
+	);
+}
+
+/**
+ * Detail page for a single API key: metadata, request activity and lifecycle actions
+ */
+export function KeyDetail() {
+	const { id = '' } = useParams();
+	const navigate = useNavigate();
+	const [openModal, setOpenModal] = useState<KeyModal | null>(null);
+	const { keys, loading: keyLoading, error: keyError } = useApiKeys({ id });
+	const apiKey = keys[0] ?? null;
+
+	const { data: usageData, loading: usageLoading } = useUsageDataset(
+		apiKey?.environment ?? 'test'
+	);
+
+	const keyRequests = useMemo(
+		() => (usageData?.requests ?? []).filter((r) => r.keyId === id),
+		[usageData, id]
+	);
+
+	const stats = useMemo(() => {
+		const errorCount = keyRequests.filter((r) =>
+			isErrorStatus(r.statusCode)
+		).length;
+		return {
+			totalRequests: keyRequests.length,
+			errorRate:
+				keyRequests.length > 0 ? (errorCount / keyRequests.length) * 100 : 0,
+			usage: summarizeUsageByKey(keyRequests).get(id),
+			topEndpoints: getTopEndpoints(keyRequests),
+			chartData: getDailyRequestCounts(keyRequests).map((day) => ({
+				...day,
+				displayDate: new Date(day.date).toLocaleDateString('en-US', {
+					month: 'short',
+					day: 'numeric'
+				})
+			}))
+		};
+	}, [keyRequests, id]);
+
+	const quota = useMemo(
+		() =>
+			apiKey
+				? computeQuotaUsage(
+						[apiKey],
+						keyRequests,
+						getUsageReferenceDate(usageData)
+					).get(apiKey.id)
+				: undefined,
+		[apiKey, keyRequests, usageData]
+	);
+
+	if (!apiKey && keyLoading) {
+		return (
+			<div className="flex-1 p-6 md:p-12">
+				<div className="flex items-center justify-center py-12">
+					<div className="text-center">
+						<div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+						<p className="mt-4 text-sm text-muted-foreground">
+							Loading API key...
+						</p>
+					</div>
+				</div>
+			</div>
+		);
+	}
+
+	if (!apiKey && keyError) {
+		return (
+			<div className="flex-1 p-6 md:p-12">
+				<div className="rounded-xl border border-destructive/50 bg-destructive/10 p-6">
+					<p className="text-sm font-medium text-destructive">
+						Failed to load API key: {keyError}
+					</p>
+				</div>
+			</div>
+		);
+	}
+
+	if (!apiKey) {
+		return (
+			<div className="flex-1 p-6 md:p-12">
+				<div className="flex flex-col items-center justify-center gap-4 py-16 text-center">
+					<KeyRound className="h-12 w-12 text-muted-foreground" />
+					<h1 className="text-lg font-semibold">API key not found</h1>
+					<p className="text-sm text-muted-foreground">
+						It may have been deleted.
+					</p>
+					<Button asChild variant="outline">
+						<Link to="/keys">Back to API Keys</Link>
+					</Button>
+				</div>
+			</div>
+		);
+	}
+
+	const isActive = isApiKeyActive(apiKey);
+	const lastRotatedAt = getLastRotatedAt(apiKey);
+
+	const modalProps = (modal: KeyModal) => ({
+		open: openModal === modal,
+		onOpenChange: (open: boolean) => setOpenModal(open ? modal : null),
+		apiKey
+	});
+
+	return (
+		<div className="flex-1 p-6 md:p-12">
+			<div className="flex flex-col gap-6">
+				<Link
+					to="/keys"
+					className="flex w-fit items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+				>
+					<ArrowLeft className="h-4 w-4" />
+					All API keys
+				</Link>
+
+				<div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+					<div className="flex flex-col gap-2">
+						<div className="flex flex-wrap items-center gap-3">
+							<h1 className="text-3xl font-bold tracking-tight">
+								{apiKey.name}
+							</h1>
+							<ApiKeyStatusBadge apiKey={apiKey} />
+						</div>
+						{apiKey.description && (
+							<p className="text-muted-foreground">{apiKey.description}</p>
+						)}
+						<div>
+							<code className="font-mono text-sm text-muted-foreground">
+								{getMaskedKey(apiKey)}
+							</code>
+							<PreviousSecrets apiKey={apiKey} />
+						</div>
+					</div>
+
+					<div className="flex flex-wrap gap-2">
+						<Button
+							variant="outline"
+							className="gap-2"
+							onClick={() => setOpenModal('details')}
+						>
+							<Pencil className="h-4 w-4" />
+							Edit details
+						</Button>
+						<Button
+							variant="outline"
+							className="gap-2"
+							onClick={() => setOpenModal('history')}
+						>
+							<History className="h-4 w-4" />
+							History
+						</Button>
+						<Button
+							variant="outline"
+							className="gap-2"
+							onClick={() => setOpenModal('regenerate')}
+						>
+							<RefreshCw className="h-4 w-4" />
+							Regenerate
+						</Button>
+						{canDeleteApiKey(apiKey) ? (
+							<Button
+								variant="outline"
+								className="gap-2 text-destructive"
+								onClick={() => setOpenModal('delete')}
+							>
+								<Trash2 className="h-4 w-4" />
+								Delete
+							</Button>
+						) : (
+							<Button
+								variant="outline"
+								className="gap-2 text-destructive"
+								onClick={() => setOpenModal('revoke')}
+							>
+								<Ban className="h-4 w-4" />
+								Revoke
+							</Button>
+						)}
+					</div>
+				</div>
+
+				<div className="grid gap-4 md:grid-cols-3">
+					<div className="rounded-xl border border-border-dark bg-surface-dark p-6 shadow-sm-dark">
+						<p className="text-sm font-medium text-muted-foreground">
+							Total Requests
+						</p>
+						<p className="mt-2 text-3xl font-bold tracking-tight">
+							{stats.totalRequests.toLocaleString()}
+						</p>
+					</div>
+					<div className="rounded-xl border border-border-dark bg-surface-dark p-6 shadow-sm-dark">
+						<p className="text-sm font-medium text-muted-foreground">
+							Error Rate
+						</p>
+						<p className="mt-2 text-3xl font-bold tracking-tight text-red-600 dark:text-red-400">
+							{stats.errorRate.toFixed(1)}%
+						</p>
+					</div>
+					<div className="rounded-xl border border-border-dark bg-surface-dark p-6 shadow-sm-dark">
+						<p className="text-sm font-medium text-muted-foreground mb-2">
+							Quota
+						</p>
+						<QuotaMeter quota={quota} />
+					</div>
+				</div>
+
+				<div className="grid gap-4 lg:grid-cols-3">
+					<div className="rounded-xl border border-border-dark bg-surface-dark p-6 shadow-sm-dark lg:col-span-2">
+						<div className="mb-4">
+							<h2 className="text-lg font-semibold">Request Volume</h2>
+							<p className="text-sm text-muted-foreground">
+								Daily requests made with this key
+							</p>
+						</div>
+						<div className="h-[300px]">
+							{stats.chartData.length > 0 ? (
+								<ResponsiveContainer width="100%" height="100%">
+									<AreaChart data={stats.chartData}>
+										<defs>
+											<linearGradient
+												id="colorKeyRequests"
+												x1="0"
+												y1="0"
+												x2="0"
+												y2="1"
+											>
+												<stop
+													offset="5%"
+													stopColor="#3b82f6"
+													stopOpacity={0.3}
+												/>
+												<stop
+													offset="95%"
+													stopColor="#3b82f6"
+													stopOpacity={0}
+												/>
+											</linearGradient>
+										</defs>
+										<CartesianGrid
+											strokeDasharray="3 3"
+											className="stroke-border"
+										/>
+										<XAxis
+											dataKey="displayDate"
+											className="text-xs text-muted-foreground"
+										/>
+										<YAxis className="text-xs text-muted-foreground" />
+										<Tooltip
+											contentStyle={{
+												backgroundColor: 'hsl(var(--card))',
+												border: '1px solid hsl(var(--border))',
+												borderRadius: '8px'
+											}}
+										/>
+										<Area
+											type="monotone"
+											dataKey="requests"
+											stroke="#3b82f6"
+											strokeWidth={2}
+											fillOpacity={1}
+											fill="url(#colorKeyRequests)"
+										/>
+										<Area
+											type="monotone"
+											dataKey="errors"
+											stroke="#ef4444"
+											strokeWidth={2}
+											fillOpacity={0}
+										/>
+									</AreaChart>
+								</ResponsiveContainer>
+							) : (
+								<div className="flex h-full items-center justify-center text-muted-foreground">
+									{usageLoading
+										? 'Loading usage data...'
+										: 'No requests recorded for this key'}
+								</div>
+							)}
+						</div>
+					</div>
+
+					<div className="rounded-xl border border-border-dark bg-surface-dark p-6 shadow-sm-dark">
+						<h2 className="mb-4 text-lg font-semibold">Top Endpoints</h2>
+						{stats.topEndpoints.length > 0 ? (
+							<ul className="space-y-3">
+								{stats.topEndpoints.map((endpoint) => (
+									<li
+										key={endpoint.endpoint}
+										className="flex items-center justify-between gap-3 text-sm"
+									>
+										<code className="font-mono">{endpoint.endpoint}</code>
+										<span className="text-muted-foreground">
+											{endpoint.count.toLocaleString()}
+											{endpoint.errorCount > 0 && (
+												<span className="text-red-600 dark:text-red-400">
+													{' '}
+													· {endpoint.errorCount} errors
+												</span>
+											)}
+										</span>
+									</li>
+								))}
+							</ul>
+						) : (
+							<p className="text-sm text-muted-foreground">No requests yet</p>
+						)}
+					</div>
+				</div>
+
+				<div className="rounded-xl border border-border-dark bg-surface-dark p-6 shadow-sm-dark">
+					<h2 className="mb-4 text-lg font-semibold">Details</h2>
+					<dl className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+						<DetailField label="ENVIRONMENT">
+							{apiKey.environment === 'test' ? 'Test' : 'Production'}
+						</DetailField>
+						<DetailField label="OWNER">
+							{apiKey.owner || 'No owner'}
+						</DetailField>
+						<DetailField label="TAGS">
+							{(apiKey.tags ?? []).length > 0 ? (
+								<KeyTags tags={apiKey.tags ?? []} />
+							) : (
+								<span className="text-muted-foreground">No tags</span>
+							)}
+						</DetailField>
+						<DetailField label="CREATED">
+							{formatDate(apiKey.createdAt)} (
+							{formatRelativeTime(apiKey.createdAt)})
+						</DetailField>
+						<DetailField label="EXPIRES">
+							{apiKey.expiresAt ? formatDate(apiKey.expiresAt) : 'Never'}
+						</DetailField>
+						<DetailField label="LAST ROTATED">
+							{lastRotatedAt ? formatRelativeTime(lastRotatedAt) : 'Never'}
+						</DetailField>
+						<DetailField label="LAST USED">
+							<KeyLastUsed usage={stats.usage} />
+						</DetailField>
+						<DetailField label="SCOPES">
+							<div className="flex flex-col items-start gap-2">
+								<ScopeChips scopes={apiKey.scopes} />
+								<Button
+									variant="link"
+									size="sm"
+									className="h-auto p-0"
+									onClick={() => setOpenModal('scopes')}
+								>
+									Edit scopes
+								</Button>
+							</div>
+						</DetailField>
+						<DetailField label="RESTRICTIONS">
+							<div className="flex flex-col items-start gap-2">
+								<KeyRestrictions apiKey={apiKey} />
+								<div className="flex gap-3">
+									<Button
+										variant="link"
+										size="sm"
+										className="h-auto p-0"
+										onClick={() => setOpenModal('restrictions')}
+									>
+										Edit restrictions
+									</Button>
+									<Button
+										variant="link"
+										size="sm"
+										className="h-auto p-0"
+										onClick={() => setOpenModal('limits')}
+									>
+										Edit limits
+									</Button>
+								</div>
+							</div>
+						</DetailField>
+					</dl>
+				</div>
+			</div>
+
+			<EditKeyDetailsModal {...modalProps('details')} />
+			<EditScopesModal {...modalProps('scopes')} />
+			<EditRestrictionsModal {...modalProps('restrictions')} />
+			<EditLimitsModal {...modalProps('limits')} />
+			<KeyHistoryModal {...modalProps('history')} />
+			<RegenerateKeyModal
+				{...modalProps('regenerate')}
+				onKeyRegenerated={() => {
+					toast.success(
+						isActive
+							? `API key "${apiKey.name}" has been regenerated`
+							: `API key "${apiKey.name}" has been regenerated and reactivated`
+					);
+				}}
+			/>
+
+			<RevokeKeyDialog {...modalProps('revoke')} />
+			<DeleteKeyDialog
+				{...modalProps('delete')}
+				onDeleted={() => navigate('/keys')}
+				onRestored={() => navigate(getKeyDetailPath(apiKey.id))}
+			/>
+		</div>
+	);
+}
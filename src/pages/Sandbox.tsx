@@ -0,0 +1,328 @@
+import { Send, Terminal, Trash2 } from 'lucide-react';
+import { type FormEvent, useState, useSyncExternalStore } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { KEY_PREFIXES } from '@/lib/keyFormat';
+import {
+	SANDBOX_METHODS,
+	type SandboxMethod,
+	type SandboxResponse,
+	sendSandboxRequest
+} from '@/lib/sandbox';
+import { API_RESOURCES, type ApiResource } from '@/lib/scopes';
+import {
+	clearRecordedRequests,
+	getRecordedRequests,
+	subscribeToRecordedRequests
+} from '@/lib/usageLog';
+import { cn } from '@/lib/utils';
+
+type SentRequest = {
+	id: number;
+	method: SandboxMethod;
+	endpoint: ApiResource;
+	sentAt: Date;
+	response: SandboxResponse;
+};
+
+/** Requests kept in the history list */
+const HISTORY_SIZE = 10;
+
+const METHODS_WITH_BODY: SandboxMethod[] = ['POST', 'PUT', 'PATCH'];
+
+function statusClass(status: number): string {
+	if (status >= 500) return 'text-destructive';
+	if (status >= 400) return 'text-amber-500';
+	return 'text-green-600 dark:text-green-400';
+}
+
+/**
+ * Segmented picker for one of a few string options
+ */
+function OptionGroup<T extends string>({
+	label,
+	options,
+	value,
+	onChange,
+	disabled
+}: {
+	label: string;
+	options: readonly T[];
+	value: T;
+	onChange: (value: T) => void;
+	disabled: boolean;
+}) {
+	return (
+		<div className="grid gap-2">
+			<span className="text-sm font-medium">{label}</span>
+			<div
+				className="flex flex-wrap items-center gap-1 rounded-lg border border-border-dark bg-surface-dark p-1"
+				role="radiogroup"
+				aria-label={label}
+			>
+				{options.map((option) => (
+					<button
+						key={option}
+						type="button"
+						role="radio"
+						aria-checked={value === option}
+						disabled={disabled}
+						onClick={() => onChange(option)}
+						className={cn(
+							'rounded-md px-3 py-1 font-mono text-xs font-medium transition-colors',
+							value === option
+								? 'bg-primary text-primary-foreground'
+								: 'text-muted-foreground hover:text-foreground'
+						)}
+					>
+						{option}
+					</button>
+				))}
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Parse the request body field. Returns an error message for anything that
+ * is not a JSON object.
+ */
+function parseBody(text: string): {
+	body?: Record<string, unknown>;
+	error?: string;
+} {
+	if (!text.trim()) return {};
+	try {
+		const body: unknown = JSON.parse(text);
+		if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+			return { error: 'Request body must be a JSON object' };
+		}
+		return { body: body as Record<string, unknown> };
+	} catch {
+		return { error: 'Request body is not valid JSON' };
+	}
+}
+
+export function Sandbox() {
+	const { mode } = useEnvironment();
+	const [apiKey, setApiKey] = useState('');
+	const [method, setMethod] = useState<SandboxMethod>('GET');
+	const [endpoint, setEndpoint] = useState<ApiResource>('/api/users');
+	const [bodyText, setBodyText] = useState('');
+	const [bodyError, setBodyError] = useState<string | null>(null);
+	const [sending, setSending] = useState(false);
+	const [history, setHistory] = useState<SentRequest[]>([]);
+	const recorded = useSyncExternalStore(subscribeToRecordedRequests, () =>
+		getRecordedRequests(mode)
+	);
+
+	const latest = history[0];
+	const hasBody = METHODS_WITH_BODY.includes(method);
+
+	const handleSubmit = async (e: FormEvent) => {
+		e.preventDefault();
+
+		const { body, error } = hasBody ? parseBody(bodyText) : {};
+		setBodyError(error ?? null);
+		if (error) return;
+
+		setSending(true);
+		try {
+			const response = await sendSandboxRequest({
+				method,
+				endpoint,
+				authorization: `Bearer ${apiKey.trim()}`,
+				environment: mode,
+				body
+			});
+			setHistory((prev) =>
+				[
+					{ id: Date.now(), method, endpoint, sentAt: new Date(), response },
+					...prev
+				].slice(0, HISTORY_SIZE)
+			);
+		} catch (err) {
+			console.error('Sandbox request failed:', err);
+			toast.error('Failed to send request');
+		} finally {
+			setSending(false);
+		}
+	};
+
+	const handleClearRecorded = () => {
+		try {
+			clearRecordedRequests();
+			toast.success('Recorded requests cleared');
+		} catch (err) {
+			console.error('Error clearing recorded requests:', err);
+			toast.error('Failed to clear recorded requests');
+		}
+	};
+
+	return (
+		<div className="flex-1 p-6 md:p-12">
+			<div className="flex flex-col gap-6">
+				<div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+					<div>
+						<div className="flex items-center gap-2">
+							<h1 className="text-3xl font-bold tracking-tight">API Sandbox</h1>
+							<Badge variant={mode === 'test' ? 'warning' : 'default'}>
+								{mode.toUpperCase()}
+							</Badge>
+						</div>
+						<p className="text-muted-foreground">
+							Send requests with your keys to a simulated API. Requests are
+							recorded and show up on the{' '}
+							<Link to="/usage" className="text-primary hover:underline">
+								Usage
+							</Link>{' '}
+							page.
+						</p>
+					</div>
+
+					<Button
+						variant="outline"
+						onClick={handleClearRecorded}
+						disabled={recorded.length === 0}
+					>
+						<Trash2 className="h-4 w-4" />
+						Clear Recorded ({recorded.length.toLocaleString()})
+					</Button>
+				</div>
+
+				<form
+					onSubmit={handleSubmit}
+					className="grid gap-4 rounded-xl border border-border-dark bg-surface-dark p-6 shadow-sm-dark"
+				>
+					<div className="grid gap-2">
+						<label htmlFor="sandbox-key" className="text-sm font-medium">
+							API Key
+						</label>
+						<Input
+							id="sandbox-key"
+							type="password"
+							placeholder={`${KEY_PREFIXES[mode]}_...`}
+							className="font-mono"
+							value={apiKey}
+							onChange={(e) => setApiKey(e.target.value)}
+							autoComplete="off"
+							spellCheck={false}
+							disabled={sending}
+						/>
+						<p className="text-xs text-muted-foreground">
+							Sent as <code>Authorization: Bearer &lt;key&gt;</code>. Keys are
+							only shown once, when they are created or regenerated.
+						</p>
+					</div>
+
+					<OptionGroup
+						label="Method"
+						options={SANDBOX_METHODS}
+						value={method}
+						onChange={setMethod}
+						disabled={sending}
+					/>
+					<OptionGroup
+						label="Endpoint"
+						options={API_RESOURCES}
+						value={endpoint}
+						onChange={setEndpoint}
+						disabled={sending}
+					/>
+
+					{hasBody && (
+						<div className="grid gap-2">
+							<label htmlFor="sandbox-body" className="text-sm font-medium">
+								Body (JSON, optional)
+							</label>
+							<textarea
+								id="sandbox-body"
+								value={bodyText}
+								onChange={(e) => setBodyText(e.target.value)}
+								rows={5}
+								spellCheck={false}
+								placeholder={'{\n  "name": "Ada Lovelace"\n}'}
+								disabled={sending}
+								className="border-input dark:bg-surface-dark w-full rounded-md border bg-transparent px-3 py-2 font-mono text-xs shadow-xs outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+							/>
+							{bodyError && (
+								<p className="text-sm text-destructive">{bodyError}</p>
+							)}
+						</div>
+					)}
+
+					<div className="flex justify-end">
+						<Button type="submit" disabled={sending || !apiKey.trim()}>
+							<Send className="h-4 w-4" />
+							{sending ? 'Sending...' : 'Send Request'}
+						</Button>
+					</div>
+				</form>
+
+				<div className="rounded-xl border border-border-dark bg-surface-dark p-6 shadow-sm-dark">
+					<div className="mb-4 flex items-center gap-2">
+						<Terminal className="h-5 w-5 text-muted-foreground" />
+						<h2 className="text-lg font-semibold">Response</h2>
+						{latest && (
+							<span className="ml-auto font-mono text-sm">
+								<span className={statusClass(latest.response.status)}>
+									{latest.response.status}
+								</span>
+								<span className="text-muted-foreground">
+									{' '}
+									· {latest.response.responseTimeMs}ms
+								</span>
+							</span>
+						)}
+					</div>
+					{latest ? (
+						<pre className="max-h-96 overflow-auto rounded-md bg-muted p-4 font-mono text-xs">
+							{latest.response.body === null
+								? 'No content'
+								: JSON.stringify(latest.response.body, null, 2)}
+						</pre>
+					) : (
+						<p className="text-sm text-muted-foreground">
+							Send a request to see the response here.
+						</p>
+					)}
+				</div>
+
+				{history.length > 0 && (
+					<div className="rounded-xl border border-border-dark bg-surface-dark p-6 shadow-sm-dark">
+						<h2 className="mb-4 text-lg font-semibold">Recent Requests</h2>
+						<ul className="divide-y divide-border-dark">
+							{history.map((entry) => (
+								<li
+									key={entry.id}
+									className="flex items-center gap-3 py-2 font-mono text-xs"
+								>
+									<span
+										className={cn(
+											'w-10 font-semibold',
+											statusClass(entry.response.status)
+										)}
+									>
+										{entry.response.status}
+									</span>
+									<span className="w-14">{entry.method}</span>
+									<span className="flex-1">{entry.endpoint}</span>
+									<span className="text-muted-foreground">
+										{entry.response.responseTimeMs}ms
+									</span>
+									<span className="text-muted-foreground">
+										{entry.sentAt.toLocaleTimeString()}
+									</span>
+								</li>
+							))}
+						</ul>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -1,5 +1,5 @@
 import { ArrowDown, ArrowUp, TrendingUp } from 'lucide-react';
-import { type ReactNode, useEffect, useMemo, useState } from 'react';
+import { type ReactNode, useMemo, useState } from 'react';
 import {
 	Area,
 	AreaChart,
@@ -11,7 +11,7 @@ import {
 } from 'recharts';
 import { Button } from '@/components/ui/button';
 import { useEnvironment } from '@/contexts/EnvironmentContext';
-import type { UsageDataset } from '@/types/mock-data';
+import { useUsageDataset } from '@/hooks/useUsageDataset';
 
 type TimeRange = '24h' | '7d' | '30d';
 
@@ -69,45 +69,7 @@ function StatsCard({
 export function Usage() {
 	const { mode } = useEnvironment();
 	const [timeRange, setTimeRange] = useState<TimeRange>('7d');
-	const [usageData, setUsageData] = useState<UsageDataset | null>(null);
-	const [loading, setLoading] = useState(true);
-	const [error, setError] = useState<string | null>(null);
-
-	useEffect(() => {
-		const controller = new AbortController();
-
-		const loadData = async () => {
-			try {
-				setLoading(true);
-				setError(null);
-				const response = await fetch(`/data/usage-${mode}.json`, {
-					signal: controller.signal
-				});
-				if (!response.ok) {
-					throw new Error('Failed to load usage data');
-				}
-				const data = await response.json();
-				setUsageData(data);
-			} catch (err) {
-				// Don't set error state if request was aborted (component unmounted or mode changed)
-				if (err instanceof Error && err.name !== 'AbortError') {
-					setError(err.message);
-				}
-			} finally {
-				// Don't update loading state if request was aborted
-				if (!controller.signal.aborted) {
-					setLoading(false);
-				}
-			}
-		};
-
-		loadData();
-
-		// Cleanup: abort the fetch if component unmounts or mode changes
-		return () => {
-			controller.abort();
-		};
-	}, [mode]);
+	const { data: usageData, loading, error } = useUsageDataset(mode);
 
 	const filteredRequests = useMemo(() => {
 		if (!usageData) return [];
@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+	/** localStorage (default), indexedDB, memory or http */
+	readonly VITE_STORAGE_BACKEND?: string;
+	/** Base URL of the storage API when VITE_STORAGE_BACKEND is http */
+	readonly VITE_STORAGE_URL?: string;
+	/** Base URL of the management API (see scripts/mockServer.ts) */
+	readonly VITE_API_URL?: string;
+}